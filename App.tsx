@@ -1,22 +1,41 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Game } from './components/Game';
 import { Menu } from './components/Menu';
-import { GameState, Difficulty, GameStats, Achievement, Theme } from './types';
-import { INITIAL_STATS, ACHIEVEMENT_DEFINITIONS } from './constants';
-import { Volume2, VolumeX, Trophy, Sun, Moon } from 'lucide-react';
+import { PauseMenu } from './components/PauseMenu';
+import { WaveEditor } from './components/WaveEditor';
+import { VersusGame } from './components/VersusGame';
+import { GameState, Difficulty, GameStats, Achievement, Theme, DailyHistory, Replay, RendererType, RunSnapshot, RunConfig, GameMode, TimeAttackBests, CampaignProgress, Stage, BossRushRecords } from './types';
+import { INITIAL_STATS, ACHIEVEMENT_DEFINITIONS, DAILY_DIFFICULTY, CAMPAIGN_DIFFICULTY, CLASSIC_CONFIG, BOSS_RUSH } from './constants';
+import { Volume2, VolumeX, Trophy, Sun, Moon, Pause } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import { loadStats, loadUnlockedAchievements, loadSettings, saveStats, saveUnlockedAchievements, saveSettings } from './utils/storage';
+import { loadStats, loadUnlockedAchievements, loadSettings, saveStats, saveUnlockedAchievements, saveSettings, loadDailyHistory, recordDailyResult, loadRecentReplays, saveRecentReplay, loadRunSnapshot, clearRunSnapshot, loadTimeAttackBests, recordTimeAttackResult, loadCampaignProgress, recordStageResult, loadEditorStage, saveEditorStage, loadBossRushRecords, recordBossRushResult } from './utils/storage';
+import { CAMPAIGN, getStageStars, isCampaignStage, createBlankStage } from './utils/campaign';
+import { getDailyKey, getDailySeed } from './utils/daily';
 import { initAudio, playSound, playMusic, stopMusic } from './utils/sound';
 
+// States where the soundtrack gives way to gameplay sounds
+const isGameplayState = (state: GameState) =>
+  state === GameState.PLAYING || state === GameState.PAUSED || state === GameState.REPLAY || state === GameState.VERSUS;
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [score, setScore] = useState(0);
+  const [lastSeed, setLastSeed] = useState<number | undefined>(undefined);
+  const [runId, setRunId] = useState(0); // Bumped to remount Game for a fresh run
+  // Run saved by a previous session, and the one being continued right now
+  const [savedRun, setSavedRun] = useState<RunSnapshot | null>(null);
+  const [resumeRun, setResumeRun] = useState<RunSnapshot | null>(null);
+  // Difficulty of a continued run, kept so restarting it doesn't fall back to the menu's setting
+  const [continuedDifficulty, setContinuedDifficulty] = useState<Difficulty | null>(null);
+  // Ruleset of the current/last run
+  const [runConfig, setRunConfig] = useState<RunConfig>(CLASSIC_CONFIG);
   
   // Settings State
   const [isMuted, setIsMuted] = useState(false);
   const [theme, setTheme] = useState<Theme>('dark');
   const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [renderer, setRenderer] = useState<RendererType>('canvas');
   
   // Loading State to prevent overwriting settings on mount
   const [isSettingsLoaded, setIsSettingsLoaded] = useState(false);
@@ -26,6 +45,27 @@ const App: React.FC = () => {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [toast, setToast] = useState<{title: string, icon: string} | null>(null);
 
+  // Daily Challenge State (dailyKey is set while the current/last run is a daily one)
+  const [dailyHistory, setDailyHistory] = useState<DailyHistory>({});
+  const [dailyKey, setDailyKey] = useState<string | null>(null);
+
+  const [timeAttackBests, setTimeAttackBests] = useState<TimeAttackBests>({});
+
+  // Campaign State (lastStageResult describes the stage that just ended)
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>({});
+  const [lastStageResult, setLastStageResult] = useState<{ cleared: boolean; stars: number } | null>(null);
+
+  // Boss Rush State (lastBossSplits: run time at each kill in the run that just ended)
+  const [bossRushRecords, setBossRushRecords] = useState<BossRushRecords>({});
+  const [lastBossSplits, setLastBossSplits] = useState<number[]>([]);
+
+  // Wave editor: the stage being built, test-played as a campaign run
+  const [editorStage, setEditorStage] = useState<Stage>(createBlankStage);
+
+  // Replay State
+  const [replays, setReplays] = useState<Replay[]>([]);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+
   const applyTelegramTheme = (currentTheme: Theme) => {
     const tg = window.Telegram?.WebApp;
     if (tg && tg.isVersionAtLeast && tg.isVersionAtLeast('6.1')) {
@@ -64,6 +104,7 @@ const App: React.FC = () => {
 
     setDifficulty(savedSettings.difficulty);
     setShowTutorial(!savedSettings.hasPlayedTutorial);
+    setRenderer(savedSettings.renderer);
     
     // Mark settings as loaded so we can safely auto-save later
     setIsSettingsLoaded(true);
@@ -81,6 +122,14 @@ const App: React.FC = () => {
       isUnlocked: unlockedIds.includes(def.id)
     }));
     setAchievements(hydratedAchievements);
+
+    setDailyHistory(loadDailyHistory());
+    setTimeAttackBests(loadTimeAttackBests());
+    setCampaignProgress(loadCampaignProgress());
+    setBossRushRecords(loadBossRushRecords());
+    const editorDraft = loadEditorStage();
+    if (editorDraft) setEditorStage(editorDraft);
+    setReplays(loadRecentReplays());
   }, []);
 
   // Handle Telegram Back Button
@@ -92,10 +141,17 @@ const App: React.FC = () => {
       if (!tg.isVersionAtLeast || !tg.isVersionAtLeast('6.1')) return;
 
       const handleBack = () => {
+          // Back pauses a run instead of throwing it away; from the pause overlay it resumes
           if (gameState === GameState.PLAYING) {
-              setGameState(GameState.MENU);
+              setGameState(GameState.PAUSED);
+          } else if (gameState === GameState.PAUSED) {
+              setGameState(GameState.PLAYING);
           } else if (gameState === GameState.GAME_OVER) {
               setGameState(GameState.MENU);
+          } else if (gameState === GameState.REPLAY) {
+              exitReplay();
+          } else if (gameState === GameState.EDITOR || gameState === GameState.VERSUS) {
+              setGameState(GameState.MENU);
           }
       };
 
@@ -111,6 +167,33 @@ const App: React.FC = () => {
       };
   }, [gameState]);
 
+  // Pick up a run left unfinished (reload, app closed) whenever the main menu shows
+  useEffect(() => {
+      if (gameState === GameState.MENU) setSavedRun(loadRunSnapshot());
+  }, [gameState]);
+
+  // Auto-pause when the app goes to the background (tab hidden, window blurred, Telegram minimised)
+  useEffect(() => {
+      const pause = () => setGameState(current => current === GameState.PLAYING ? GameState.PAUSED : current);
+      const handleVisibility = () => {
+          if (document.hidden) pause();
+      };
+
+      document.addEventListener('visibilitychange', handleVisibility);
+      window.addEventListener('blur', pause);
+
+      // 'deactivated' was added in Bot API 8.0
+      const tg = window.Telegram?.WebApp;
+      const hasActivationEvents = !!(tg && tg.isVersionAtLeast && tg.isVersionAtLeast('8.0'));
+      if (hasActivationEvents) tg!.onEvent('deactivated', pause);
+
+      return () => {
+          document.removeEventListener('visibilitychange', handleVisibility);
+          window.removeEventListener('blur', pause);
+          if (hasActivationEvents) tg!.offEvent('deactivated', pause);
+      };
+  }, []);
+
   // 2. Auto-Save Settings when they change (Only after initial load)
   useEffect(() => {
     if (!isSettingsLoaded) return;
@@ -119,13 +202,14 @@ const App: React.FC = () => {
       isMuted,
       theme,
       difficulty,
-      hasPlayedTutorial: !showTutorial
+      hasPlayedTutorial: !showTutorial,
+      renderer
     });
-  }, [isMuted, theme, difficulty, showTutorial, isSettingsLoaded]);
+  }, [isMuted, theme, difficulty, showTutorial, renderer, isSettingsLoaded]);
 
   // 3. Manage Music based on State
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
+    if (isGameplayState(gameState)) {
         stopMusic();
     } else {
         // Menu or Game Over - Play Music
@@ -146,16 +230,53 @@ const App: React.FC = () => {
       playSound('ui', isMuted);
       setIsMuted(!isMuted);
       if (!isMuted) stopMusic(); // If muting, stop immediately
-      else if (gameState !== GameState.PLAYING) playMusic(false); // If unmuting in menu, start
+      else if (!isGameplayState(gameState)) playMusic(false); // If unmuting in menu, start
   };
 
-  const handleGameOver = (finalScore: number, sessionStats: GameStats) => {
+  const isTimeAttack = runConfig.mode === GameMode.TIME_ATTACK;
+  const hasLives = runConfig.mode === GameMode.LIVES;
+  const isBossRush = runConfig.mode === GameMode.BOSS_RUSH;
+  const isPractice = runConfig.mode === GameMode.PRACTICE;
+  const isColorQueue = runConfig.mode === GameMode.QUEUE;
+  const stage = runConfig.mode === GameMode.CAMPAIGN ? runConfig.stage : undefined;
+  const runDifficulty = continuedDifficulty ?? (dailyKey ? DAILY_DIFFICULTY : stage ? CAMPAIGN_DIFFICULTY : difficulty);
+  const isCustomStage = !!stage && !isCampaignStage(stage); // Test play from the wave editor
+  const nextStage = stage && !isCustomStage ? CAMPAIGN[CAMPAIGN.findIndex(s => s.id === stage.id) + 1] : undefined;
+
+  const handleGameOver = (finalScore: number, sessionStats: GameStats, seed: number, replay: Replay | null, cleared: boolean, bossSplits: number[]) => {
     setScore(finalScore);
+    setLastSeed(seed);
+    setResumeRun(null);
+    if (replay) setReplays(saveRecentReplay(replay));
+
+    // Daily results are tracked on their own and don't count towards the regular high score
+    if (dailyKey) {
+        setDailyHistory(recordDailyResult(dailyKey, finalScore));
+    }
+    // Time Attack keeps a best per duration and difficulty instead
+    if (isTimeAttack && runConfig.timeLimit) {
+        setTimeAttackBests(recordTimeAttackResult(runConfig.timeLimit, runDifficulty, finalScore));
+    }
+    if (isBossRush) {
+        setLastBossSplits(bossSplits);
+        setBossRushRecords(recordBossRushResult(runDifficulty, bossSplits.length, cleared ? bossSplits[bossSplits.length - 1] : null));
+    }
+    if (stage) {
+        const stars = getStageStars(stage, finalScore, cleared);
+        setLastStageResult({ cleared, stars });
+        if (!isCustomStage) setCampaignProgress(recordStageResult(stage.id, finalScore, stars, cleared));
+    }
+    // Editor test plays don't count towards stats or achievements
+    if (isCustomStage) {
+        setGameState(GameState.GAME_OVER);
+        return;
+    }
+    const countsForHighScore = !dailyKey && runConfig.mode === GameMode.CLASSIC;
     
     // Merge Stats
     const newStats: GameStats = {
         totalScore: stats.totalScore + sessionStats.totalScore,
-        highScore: Math.max(stats.highScore, finalScore),
+        highScore: countsForHighScore ? Math.max(stats.highScore, finalScore) : stats.highScore,
         gamesPlayed: stats.gamesPlayed + 1,
         shotsFired: stats.shotsFired + sessionStats.shotsFired,
         targetsHit: stats.targetsHit + sessionStats.targetsHit,
@@ -166,9 +287,26 @@ const App: React.FC = () => {
         stationaryKills: stats.stationaryKills + sessionStats.stationaryKills,
         colorShiftKills: stats.colorShiftKills + sessionStats.colorShiftKills,
         sineWaveKills: stats.sineWaveKills + sessionStats.sineWaveKills,
+        mirrorKills: stats.mirrorKills + sessionStats.mirrorKills,
+        ghostKills: stats.ghostKills + sessionStats.ghostKills,
+        clusterKills: stats.clusterKills + sessionStats.clusterKills,
         bossKills: stats.bossKills + sessionStats.bossKills,
+        bombKills: stats.bombKills + sessionStats.bombKills,
+        bombChainKills: stats.bombChainKills + sessionStats.bombChainKills,
+        longestBombChain: Math.max(stats.longestBombChain, sessionStats.longestBombChain),
         highestLevel: Math.max(stats.highestLevel, sessionStats.highestLevel),
-        hardModeGames: stats.hardModeGames + sessionStats.hardModeGames
+        hardModeGames: stats.hardModeGames + sessionStats.hardModeGames,
+        livesGames: stats.livesGames + sessionStats.livesGames,
+        livesHighScore: hasLives ? Math.max(stats.livesHighScore, finalScore) : stats.livesHighScore,
+        livesLost: stats.livesLost + sessionStats.livesLost,
+        ammoGames: stats.ammoGames + sessionStats.ammoGames,
+        ammoShotsFired: stats.ammoShotsFired + sessionStats.ammoShotsFired,
+        ammoShotsLanded: stats.ammoShotsLanded + sessionStats.ammoShotsLanded,
+        reloads: stats.reloads + sessionStats.reloads,
+        slowMoPickups: stats.slowMoPickups + sessionStats.slowMoPickups,
+        multishotPickups: stats.multishotPickups + sessionStats.multishotPickups,
+        rainbowPickups: stats.rainbowPickups + sessionStats.rainbowPickups,
+        shieldPickups: stats.shieldPickups + sessionStats.shieldPickups
     };
     
     setStats(newStats);
@@ -205,13 +343,122 @@ const App: React.FC = () => {
     setGameState(GameState.GAME_OVER);
   };
 
-  const startGame = () => {
+  // Shared by every way of starting a fresh run. A new run replaces any unfinished one,
+  // except practice, which is never saved and so leaves it continuable.
+  const startRun = (config: RunConfig, newDailyKey: string | null = null) => {
+    initAudio();
+    playSound('ui', isMuted);
+    setScore(0);
+    setDailyKey(newDailyKey);
+    setRunConfig(config);
+    setResumeRun(null);
+    setContinuedDifficulty(null);
+    if (config.mode !== GameMode.PRACTICE) clearRunSnapshot();
+    setGameState(GameState.PLAYING);
+  };
+
+  const startGame = () => startRun(CLASSIC_CONFIG);
+
+  const startDailyChallenge = () => startRun(CLASSIC_CONFIG, getDailyKey());
+
+  const startTimeAttack = (seconds: number) => startRun({ mode: GameMode.TIME_ATTACK, timeLimit: seconds });
+
+  const startLives = () => startRun({ mode: GameMode.LIVES });
+
+  const startBossRush = () => startRun({ mode: GameMode.BOSS_RUSH });
+
+  // Two shooters on one screen sharing a single run
+  const startCoop = () => startRun({ mode: GameMode.COOP });
+
+  const startAmmo = () => startRun({ mode: GameMode.AMMO });
+
+  // Colors come from a queue instead of the control bar
+  const startColorQueue = () => startRun({ mode: GameMode.QUEUE });
+
+  const startStage = (stageToPlay: Stage) => startRun({ mode: GameMode.CAMPAIGN, stage: stageToPlay });
+
+  // Practice runs never end on their own; they're left through the pause menu and aren't recorded
+  const startPractice = (config: RunConfig) => startRun(config);
+
+  // Game over's "play again": the run's config already carries its mode and settings
+  // (time limit, stage), so the same run starts over; daily runs move on to today's challenge
+  const playAgain = () => dailyKey ? startDailyChallenge() : startRun(runConfig);
+
+  const pauseGame = () => {
+    playSound('ui', isMuted);
+    setGameState(GameState.PAUSED);
+  };
+
+  const resumeGame = () => {
+    playSound('ui', isMuted);
+    setGameState(GameState.PLAYING);
+  };
+
+  // Restored runs come back paused, so the player has a moment before play resumes
+  const continueRun = () => {
+    if (!savedRun) return;
     initAudio();
     playSound('ui', isMuted);
     setScore(0);
+    setDailyKey(savedRun.dailyKey);
+    setRunConfig(savedRun.engine.config);
+    setResumeRun(savedRun);
+    setContinuedDifficulty(savedRun.engine.difficulty);
+    setRunId(id => id + 1);
+    setGameState(GameState.PAUSED);
+  };
+
+  // Same mode (and for daily runs the same seed) from the start
+  const restartGame = () => {
+    playSound('ui', isMuted);
+    setScore(0);
+    setResumeRun(null);
+    // Practice is never saved, so any unfinished run it was started over stays continuable
+    if (!isPractice) clearRunSnapshot();
+    setRunId(id => id + 1);
     setGameState(GameState.PLAYING);
   };
 
+  const quitGame = () => {
+    playSound('ui', isMuted);
+    setResumeRun(null);
+    if (!isPractice) clearRunSnapshot();
+    setGameState(isCustomStage ? GameState.EDITOR : GameState.MENU);
+  };
+
+  // Two players on one device; nothing from a match is recorded
+  const startVersus = () => {
+    initAudio();
+    playSound('ui', isMuted);
+    setGameState(GameState.VERSUS);
+  };
+
+  const openEditor = () => {
+    playSound('ui', isMuted);
+    setGameState(GameState.EDITOR);
+  };
+
+  const changeEditorStage = (stageToSave: Stage) => {
+    setEditorStage(stageToSave);
+    saveEditorStage(stageToSave);
+  };
+
+  const watchReplay = (replay: Replay) => {
+    initAudio();
+    playSound('ui', isMuted);
+    setActiveReplay(replay);
+    setGameState(GameState.REPLAY);
+  };
+
+  const exitReplay = () => {
+    setActiveReplay(null);
+    setGameState(GameState.MENU);
+  };
+
+  const importReplay = (replay: Replay) => {
+    setReplays(saveRecentReplay(replay));
+  };
+
   const bgClass = theme === 'dark' ? 'bg-slate-900 text-white' : 'bg-slate-50 text-slate-900';
   const buttonClass = theme === 'dark' ? 'bg-white/10 hover:bg-white/20' : 'bg-slate-200 hover:bg-slate-300 text-slate-700';
 
@@ -238,6 +485,15 @@ const App: React.FC = () => {
     <div className={`relative w-full h-screen overflow-hidden font-sans select-none transition-colors duration-500 ${bgClass}`}>
       {/* Top Right Controls */}
       <div className="absolute top-4 right-4 z-50 flex gap-2">
+          {gameState === GameState.PLAYING && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); pauseGame(); }}
+              onTouchStart={(e) => e.stopPropagation()}
+              className={`p-2 rounded-full transition-colors ${buttonClass}`}
+            >
+              <Pause size={24} />
+            </button>
+          )}
           <button 
             onClick={(e) => { e.stopPropagation(); toggleTheme(); }}
             className={`p-2 rounded-full transition-colors ${buttonClass}`}
@@ -258,41 +514,144 @@ const App: React.FC = () => {
       {gameState === GameState.MENU && (
         <Menu 
           onStart={startGame} 
+          onStartDaily={startDailyChallenge}
+          onStartTimeAttack={startTimeAttack}
+          onStartLives={startLives}
+          onStartBossRush={startBossRush}
+          onStartVersus={startVersus}
+          onStartCoop={startCoop}
+          onStartColorQueue={startColorQueue}
+          onStartAmmo={startAmmo}
+          bossRushRecords={bossRushRecords}
+          onStartPractice={startPractice}
+          onStartStage={startStage}
+          campaignProgress={campaignProgress}
+          onOpenEditor={openEditor}
+          timeAttackBests={timeAttackBests}
+          savedRun={savedRun}
+          onContinue={continueRun}
           highScore={stats.highScore} 
+          dailyHistory={dailyHistory}
           title="Chroma Shot"
           subtitle="Tap to shoot the ball into the matching colored ring!"
           difficulty={difficulty}
           setDifficulty={setDifficulty}
+          renderer={renderer}
+          setRenderer={setRenderer}
           achievements={achievements}
           stats={stats}
+          replays={replays}
+          onWatchReplay={watchReplay}
+          onImportReplay={importReplay}
           theme={theme}
           isMuted={isMuted}
         />
       )}
 
-      {gameState === GameState.PLAYING && (
+      {(gameState === GameState.PLAYING || gameState === GameState.PAUSED) && (
         <Game 
+          key={runId}
           onGameOver={handleGameOver} 
           isMuted={isMuted}
-          difficulty={difficulty}
-          initialTutorial={showTutorial}
+          difficulty={runDifficulty}
+          config={runConfig}
+          seed={dailyKey ? getDailySeed(dailyKey) : undefined}
+          dailyKey={dailyKey}
+          resumeRun={resumeRun ?? undefined}
+          initialTutorial={showTutorial && !resumeRun && !isColorQueue}
           onTutorialComplete={() => setShowTutorial(false)}
           theme={theme}
+          renderer={renderer}
+          isPaused={gameState === GameState.PAUSED}
+        />
+      )}
+
+      {gameState === GameState.PAUSED && (
+        <PauseMenu
+          onResume={resumeGame}
+          onRestart={restartGame}
+          onQuit={quitGame}
+          isMuted={isMuted}
+          onToggleMute={toggleMute}
+          theme={theme}
+          onToggleTheme={toggleTheme}
+          renderer={renderer}
+          setRenderer={setRenderer}
+        />
+      )}
+
+      {gameState === GameState.REPLAY && activeReplay && (
+        <Game 
+          onGameOver={() => {}} 
+          isMuted={isMuted}
+          difficulty={activeReplay.difficulty}
+          replay={activeReplay}
+          onExitReplay={exitReplay}
+          initialTutorial={false}
+          onTutorialComplete={() => {}}
+          theme={theme}
+          renderer={renderer}
+        />
+      )}
+
+      {gameState === GameState.VERSUS && (
+        <VersusGame
+          difficulty={difficulty}
+          isMuted={isMuted}
+          theme={theme}
+          onExit={() => setGameState(GameState.MENU)}
+        />
+      )}
+
+      {gameState === GameState.EDITOR && (
+        <WaveEditor
+          stage={editorStage}
+          onChange={changeEditorStage}
+          onTestPlay={() => startStage(editorStage)}
+          onBack={() => { playSound('ui', isMuted); setGameState(GameState.MENU); }}
+          theme={theme}
+          isMuted={isMuted}
         />
       )}
 
       {gameState === GameState.GAME_OVER && (
         <Menu 
-          onStart={startGame} 
+          onStart={playAgain}
+          onStartDaily={startDailyChallenge}
+          onStartTimeAttack={startTimeAttack}
+          onStartLives={startLives}
+          onStartBossRush={startBossRush}
+          onStartVersus={startVersus}
+          onStartCoop={startCoop}
+          onStartColorQueue={startColorQueue}
+          onStartAmmo={startAmmo}
+          bossRushRecords={bossRushRecords}
+          onStartPractice={startPractice}
+          onStartStage={startStage}
+          campaignProgress={campaignProgress}
+          onOpenEditor={openEditor}
+          lastStageResult={stage ? lastStageResult : null}
+          lastBossSplits={isBossRush ? lastBossSplits : undefined}
+          onNextStage={lastStageResult?.cleared && nextStage ? () => startStage(nextStage) : undefined}
+          timeAttackBests={timeAttackBests}
           highScore={stats.highScore}
+          dailyHistory={dailyHistory}
+          isDailyRun={dailyKey !== null}
+          lastRunConfig={runConfig}
           lastScore={score}
-          title="Game Over"
-          subtitle="Oops! You hit the wrong color."
+          lastSeed={lastSeed}
+          title={stage ? (lastStageResult?.cleared ? 'Stage Clear!' : 'Stage Failed') : isBossRush && lastBossSplits.length >= BOSS_RUSH.BOSSES ? 'Boss Rush Clear!' : 'Game Over'}
+          subtitle={stage ? stage.name : isBossRush ? `${lastBossSplits.length} of ${BOSS_RUSH.BOSSES} bosses beaten` : isTimeAttack ? "Time's up!" : hasLives ? 'Out of lives!' : 'Oops! You hit the wrong color.'}
           isGameOver
           difficulty={difficulty}
           setDifficulty={setDifficulty}
+          renderer={renderer}
+          setRenderer={setRenderer}
           achievements={achievements}
           stats={stats}
+          replays={replays}
+          onWatchReplay={watchReplay}
+          onImportReplay={importReplay}
           theme={theme}
           isMuted={isMuted}
         />
@@ -0,0 +1,242 @@
+import React from 'react';
+import { Projectile, Target, Particle, Pickup, TargetType, TargetShape, Theme } from '../types';
+import { CLUSTER, COLORS, COLOR_KEYS, MIRROR, PICKUP_STYLES } from '../constants';
+import { getGhostOpacity } from '../utils/engine';
+
+interface DomSceneProps {
+  targets: Target[];
+  projectiles: Projectile[];
+  pickups: Pickup[];
+  particles: Particle[];
+  time: number; // Engine gameplay time, drives the sine wave pulse
+  theme: Theme;
+}
+
+// Mirror markings in a 100x100 viewBox: the core face wedge and the facet joints around the rest of the rim
+const MIRROR_HALF_ARC = MIRROR.CORE_ARC / 2;
+const rimPoint = (angle: number, radius: number) => `${50 + Math.cos(angle) * radius},${50 + Math.sin(angle) * radius}`;
+const MIRROR_CORE_PATH = `M50,50 L${rimPoint(-MIRROR_HALF_ARC, 45)} A45,45 0 0,1 ${rimPoint(MIRROR_HALF_ARC, 45)} Z`;
+const MIRROR_FACET_JOINTS = Array.from({ length: MIRROR.FACETS - 1 }, (_, i) => {
+    const angle = MIRROR_HALF_ARC + (i + 1) * (Math.PI * 2 - MIRROR.CORE_ARC) / MIRROR.FACETS;
+    return [rimPoint(angle, 36).split(','), rimPoint(angle, 53).split(',')];
+});
+
+// Original renderer: one absolutely positioned element per entity.
+// Kept next to the canvas renderer for comparison on different devices.
+export const DomScene: React.FC<DomSceneProps> = ({ targets, projectiles, pickups, particles, time, theme }) => {
+  return (
+    <>
+      {targets.map(target => {
+          const velocityAngle = Math.atan2(target.vy, target.vx) * (180 / Math.PI);
+          const isStationary = target.type === TargetType.STATIONARY;
+          const isBoss = target.type === TargetType.BOSS;
+          const rimColor = target.type === TargetType.MIRROR ? MIRROR.RIM_COLOR : COLORS[target.color];
+          
+          let scale = 1;
+          if (target.type === TargetType.SINE_WAVE) {
+               const sineTime = (time + (target.timeOffset || 0));
+               const sineValue = Math.sin(sineTime * 0.004);
+               scale = 1 + 0.1 * Math.abs(sineValue); 
+          }
+
+          return (
+          <div
+              key={target.id}
+              className="absolute flex items-center justify-center"
+              style={{
+                  width: target.radius * 2,
+                  height: target.radius * 2,
+                  left: target.x - target.radius,
+                  top: target.y - target.radius,
+                  transform: `scale(${scale})`,
+                  opacity: getGhostOpacity(target),
+                  zIndex: isBoss ? 20 : 10
+              }}
+          >
+              {target.shielded && (
+                  <div
+                      className={`absolute rounded-full border border-dashed opacity-20 ${theme === 'dark' ? 'border-white' : 'border-slate-800'}`}
+                      style={{ width: CLUSTER.ORBIT_RADIUS * 2, height: CLUSTER.ORBIT_RADIUS * 2 }}
+                  />
+              )}
+              {isBoss && target.maxHealth && (
+                  <div className={`absolute -top-10 w-24 h-2 bg-black/50 rounded-full overflow-hidden border ${target.health < target.maxHealth * 0.4 ? 'border-red-500 animate-pulse' : 'border-white/20'}`}>
+                      <div 
+                          className={`h-full transition-all duration-200 ${target.health < target.maxHealth * 0.4 ? 'bg-red-600' : 'bg-red-500'}`} 
+                          style={{ width: `${(target.health / target.maxHealth) * 100}%` }} 
+                      />
+                  </div>
+              )}
+
+              <div 
+                  className={`absolute inset-0 flex items-center justify-center transition-colors duration-200`}
+                  style={{
+                      transform: `rotate(${target.rotation}deg)`,
+                      filter: isBoss ? 'drop-shadow(0 0 20px rgba(255,255,255,0.3))' : 'none'
+                  }}
+              >
+                  {target.shape === TargetShape.CIRCLE && (
+                      <div 
+                          className="w-full h-full rounded-full border-[4px]"
+                          style={{
+                              borderColor: rimColor,
+                              backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
+                              boxShadow: theme === 'dark' 
+                                  ? `0 0 20px ${rimColor}60, inset 0 0 10px ${rimColor}40`
+                                  : `0 4px 10px ${rimColor}40`
+                          }}
+                      />
+                  )}
+                  {target.shape === TargetShape.SQUARE && (
+                      <div 
+                          className="w-full h-full rounded-lg border-[4px]"
+                          style={{
+                              borderColor: rimColor,
+                              backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
+                              boxShadow: `0 0 15px ${rimColor}40`
+                          }}
+                      />
+                  )}
+                  {target.shape === TargetShape.DIAMOND && (
+                      <div 
+                          className="w-[80%] h-[80%] rounded-lg border-[4px] rotate-45"
+                          style={{
+                              borderColor: rimColor,
+                              backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
+                              boxShadow: `0 0 15px ${rimColor}40`
+                          }}
+                      />
+                  )}
+                  {target.shape === TargetShape.TRIANGLE && (
+                       <svg width="100%" height="100%" viewBox="0 0 100 100" className="overflow-visible">
+                           <polygon 
+                              points="50,10 90,85 10,85"
+                              fill={theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)'}
+                              stroke={rimColor}
+                              strokeWidth="5"
+                              strokeLinejoin="round"
+                              style={{ filter: `drop-shadow(0 0 8px ${rimColor}80)` }}
+                           />
+                       </svg>
+                  )}
+                  {target.shape === TargetShape.STAR && (
+                      <svg width="100%" height="100%" viewBox="0 0 100 100" className="overflow-visible animate-pulse">
+                          <polygon 
+                              points="50,5 61,35 95,35 68,57 79,91 50,70 21,91 32,57 5,35 39,35"
+                              fill={theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.6)'}
+                              stroke={rimColor}
+                              strokeWidth="4"
+                              strokeLinejoin="round"
+                              style={{ filter: `drop-shadow(0 0 15px ${rimColor})` }}
+                          />
+                      </svg>
+                  )}
+
+                  {target.type === TargetType.SPLIT && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                          <div className="w-[20%] h-[20%] bg-white rounded-full animate-ping opacity-50" />
+                      </div>
+                  )}
+                  {target.type === TargetType.TOUGH && target.health >= 2 && (
+                       <div className={`absolute w-[60%] h-[60%] border-2 rounded-full opacity-60`} style={{ borderColor: COLORS[target.color] }} />
+                  )}
+                  {target.type === TargetType.BOMB && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                          <div className="absolute w-[30%] h-[30%] rounded-full" style={{ backgroundColor: COLORS[target.color] }} />
+                          <div className="absolute w-[30%] h-[30%] border-2 rounded-full animate-ping opacity-70" style={{ borderColor: COLORS[target.color] }} />
+                      </div>
+                  )}
+                  {target.type === TargetType.CLUSTER && (target.shielded ? (
+                      <div className="absolute w-[55%] h-[55%] border-[3px] border-white rounded-full opacity-50" />
+                  ) : (
+                      <div className="absolute w-[40%] h-[40%] rounded-full animate-ping opacity-60" style={{ backgroundColor: COLORS[target.color] }} />
+                  ))}
+                  {target.type === TargetType.GHOST && (
+                      <div className="absolute w-[60%] h-[60%] border-2 border-dashed rounded-full opacity-70" style={{ borderColor: COLORS[target.color] }} />
+                  )}
+                  {target.type === TargetType.MIRROR && (
+                      <svg width="100%" height="100%" viewBox="0 0 100 100" className="absolute inset-0 overflow-visible">
+                          <path d={MIRROR_CORE_PATH} fill={COLORS[target.color]} fillOpacity={0.3} />
+                          <path d={`M${rimPoint(-MIRROR_HALF_ARC, 45)} A45,45 0 0,1 ${rimPoint(MIRROR_HALF_ARC, 45)}`} fill="none" stroke={COLORS[target.color]} strokeWidth="9" />
+                          {MIRROR_FACET_JOINTS.map(([[x1, y1], [x2, y2]], i) => (
+                              <line key={i} x1={x1} y1={y1} x2={x2} y2={y2} stroke={MIRROR.RIM_COLOR} strokeWidth="3" />
+                          ))}
+                      </svg>
+                  )}
+                   {target.type === TargetType.BOSS && (
+                       <div className="absolute w-[40%] h-[40%] bg-white/20 rounded-full animate-ping" />
+                  )}
+              </div>
+
+              {!isStationary && !isBoss && target.type !== TargetType.SATELLITE && (
+                  <div 
+                      className="absolute w-full h-full flex items-center justify-center"
+                      style={{ transform: `rotate(${velocityAngle}deg)` }}
+                  >
+                      <div className={`absolute -right-3 w-0 h-0 border-t-[5px] border-t-transparent border-b-[5px] border-b-transparent border-l-[8px] ${theme === 'dark' ? 'border-l-white/50' : 'border-l-slate-800/50'}`} />
+                  </div>
+              )}
+          </div>
+      )})}
+
+      {pickups.map(p => (
+          <div
+              key={p.id}
+              className={`absolute rounded-full border-[3px] flex items-center justify-center text-[11px] font-bold ${p.life < 1000 ? 'animate-pulse' : ''}`}
+              style={{
+                  width: p.radius * 2,
+                  height: p.radius * 2,
+                  left: p.x - p.radius,
+                  top: p.y - p.radius,
+                  color: PICKUP_STYLES[p.kind].color,
+                  borderColor: PICKUP_STYLES[p.kind].color,
+                  backgroundColor: `${PICKUP_STYLES[p.kind].color}33`,
+                  boxShadow: `0 0 15px ${PICKUP_STYLES[p.kind].color}`,
+                  zIndex: 15
+              }}
+          >
+              {PICKUP_STYLES[p.kind].label}
+          </div>
+      ))}
+
+      {particles.map(p => {
+          const isRing = p.type === 'RING';
+          return (
+          <div 
+              key={p.id}
+              className={`absolute rounded-full ${isRing ? 'border-2' : ''}`}
+              style={{
+                  backgroundColor: isRing ? 'transparent' : p.color,
+                  borderColor: isRing ? p.color : 'transparent',
+                  left: p.x,
+                  top: p.y,
+                  width: p.size,
+                  height: p.size,
+                  opacity: isRing ? p.life : (p.type === 'TRAIL' ? p.life * 0.5 : p.life),
+                  transform: isRing ? 'translate(-50%, -50%)' : `translate(-50%, -50%) scale(${p.life}) rotate(${p.rotation || 0}deg)`,
+                  boxShadow: isRing ? `0 0 10px ${p.color}` : (p.type === 'TRAIL' ? 'none' : `0 0 ${p.size}px ${p.color}`),
+                  borderRadius: p.type === 'DEBRIS' ? '0%' : '50%'
+              }}
+          />
+      )})}
+
+      {projectiles.map(p => {
+          // Rainbow shots cycle through every color they can match
+          const color = p.rainbow ? COLORS[COLOR_KEYS[Math.floor(time / 100) % COLOR_KEYS.length]] : COLORS[p.color];
+          return (
+          <div 
+              key={p.id}
+              className="absolute rounded-full"
+              style={{
+                  width: p.radius * 2,
+                  height: p.radius * 2,
+                  backgroundColor: color,
+                  left: p.x - p.radius,
+                  top: p.y - p.radius,
+                  boxShadow: `0 0 15px ${color}`
+              }}
+          />
+      )})}
+    </>
+  );
+};
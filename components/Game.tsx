@@ -3,44 +3,164 @@
 /// <reference lib="dom.iterable" />
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { ColorType, Projectile, Target, Particle, GameDimensions, TargetType, Difficulty, GameStats, Theme, TargetShape } from '../types';
-import { COLORS, COLOR_KEYS, GAME_CONFIG, DIFFICULTY_SETTINGS, TARGET_SCORES } from '../constants';
+import { ColorType, Projectile, Target, Particle, GameDimensions, TargetType, Difficulty, GameStats, Theme, EngineState, EngineInput, EngineEvent, Replay, RendererType, RunSnapshot, RunConfig, GameMode, Pickup } from '../types';
+import { COLORS, COLOR_KEYS, GAME_CONFIG, CLASSIC_CONFIG, TIME_ATTACK, LIVES_CONFIG, BOSS_RUSH, COOP, AMMO_CONFIG, PICKUP_STYLES, BOMB, MIRROR, CLUSTER } from '../constants';
 import { playSound } from '../utils/sound';
-import { Target as TargetIcon, Feather, Zap, Flame, Hand, Crown, Skull, Crosshair } from 'lucide-react';
+import { createEngineState, advanceGame, spawnTutorialTarget, getLevelProgress, getStreakMultiplier, TICK_MS, getInterpolationAlpha, interpolateTargets, interpolateProjectiles, interpolatePickups } from '../utils/engine';
+import { drawScene } from '../utils/canvasRenderer';
+import { ReplayPlayback, ReplayRecorder, createReplayRecorder, recordInputs, recordTicks, startPlayback, stepPlayback, isPlaybackFinished, encodeReplay, decodeReplay } from '../utils/replay';
+import { saveRunSnapshot, clearRunSnapshot, RUN_SNAPSHOT_VERSION } from '../utils/storage';
+import { DomScene } from './DomScene';
+import { Target as TargetIcon, Feather, Zap, Flame, Hand, Crown, Skull, Crosshair, CalendarDays, Film, RotateCcw, X, Timer, Heart, Dumbbell, Flag, Users, Repeat, Battery, Snail, GitFork, Rainbow, Shield } from 'lucide-react';
+
+const SNAPSHOT_INTERVAL_TICKS = 120; // Save the run every 2 seconds of play
+const TIME_CHANGE_FLASH = 800;       // ms the +/- seconds label stays next to the timer
+const DAMAGE_FLASH = 400;            // ms of red screen tint after losing a life
+const PENALTY_FLASH = 800;           // ms the lost points label stays next to the score
+
+// Losses the saved run must pick up straight away, or reloading within the save interval would undo them
+const isSetback = (event: EngineEvent) =>
+  event.type === 'SCORE_PENALTY' || event.type === 'AMMO_PENALTY' || event.type === 'SHIELD_BREAK' ||
+  ((event.type === 'LIFE_CHANGE' || event.type === 'TIME_CHANGE') && event.amount < 0);
+
+// Run clocks as m:ss, rounded up so a countdown only reads 0:00 once time is really up
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Ammo ruleset: rounds as pips on an arc over the shooter, and a ring that fills while reloading
+const AmmoRing: React.FC<{ ammo: number; reloadProgress: number | null; theme: Theme }> = ({ ammo, reloadProgress, theme }) => {
+  const size = GAME_CONFIG.SHOOTER_RADIUS * 2 + 28;
+  const center = size / 2;
+  const radius = GAME_CONFIG.SHOOTER_RADIUS + 9;
+  const circumference = 2 * Math.PI * radius;
+  const emptyPip = theme === 'dark' ? 'rgba(255,255,255,0.2)' : 'rgba(15,23,42,0.2)';
+  const fullPip = theme === 'dark' ? '#ffffff' : '#0f172a';
+
+  return (
+    <svg className="absolute pointer-events-none" width={size} height={size} style={{ left: -14, top: -14 }}>
+      {reloadProgress !== null ? (
+        <circle
+          cx={center} cy={center} r={radius}
+          fill="none" stroke={fullPip} strokeWidth={3} strokeLinecap="round"
+          strokeDasharray={circumference} strokeDashoffset={circumference * (1 - reloadProgress)}
+          transform={`rotate(-90 ${center} ${center})`}
+        />
+      ) : (
+        Array.from({ length: AMMO_CONFIG.MAGAZINE }, (_, i) => {
+          const angle = ((200 + (i * 140) / (AMMO_CONFIG.MAGAZINE - 1)) * Math.PI) / 180;
+          return <circle key={i} cx={center + Math.cos(angle) * radius} cy={center + Math.sin(angle) * radius} r={3} fill={i < ammo ? fullPip : emptyPip} />;
+        })
+      )}
+    </svg>
+  );
+};
 
 interface GameProps {
-  onGameOver: (score: number, sessionStats: GameStats) => void;
+  onGameOver: (score: number, sessionStats: GameStats, seed: number, replay: Replay | null, cleared: boolean, bossSplits: number[]) => void;
   isMuted: boolean;
   difficulty: Difficulty;
+  config?: RunConfig;         // Ruleset for new runs; replays and restored runs bring their own
+  seed?: number; // Fixed seed for a reproducible run, random when omitted
+  dailyKey?: string | null;   // Set for Daily Challenge runs
+  resumeRun?: RunSnapshot;    // Continue a saved run instead of starting a new one
+  replay?: Replay;            // Watch a recorded run instead of playing
+  onExitReplay?: () => void;
   initialTutorial: boolean;
   onTutorialComplete: () => void;
   theme: Theme;
+  renderer: RendererType;
+  isPaused?: boolean;         // Freezes the simulation and every gameplay timer
 }
 
-export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, initialTutorial, onTutorialComplete, theme }) => {
+export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, config = CLASSIC_CONFIG, seed, dailyKey = null, resumeRun, replay, onExitReplay, initialTutorial, onTutorialComplete, theme, renderer, isPaused = false }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
   const poolsInitializedRef = useRef(false);
-  
-  const diffSettings = DIFFICULTY_SETTINGS[difficulty];
-
-  // Initialize spawn timer so first target spawns immediately
-  const spawnTimerRef = useRef<number>(GAME_CONFIG.SPAWN_INTERVAL_START * diffSettings.spawnIntervalMultiplier + 100);
-  const lastShotTimeRef = useRef<number>(0);
   const lastScrollTimeRef = useRef<number>(0);
+  const shakeTimerRef = useRef<number>(0);
+  const shooterPulseTimerRef = useRef<number>(0);
+  const timeChangeTimerRef = useRef<number>(0);
+  const damageFlashTimerRef = useRef<number>(0);
+  const penaltyTimerRef = useRef<number>(0);
 
-  // Use a ref for dimensions to access them in the loop without dependency issues
+  // Use a ref for dimensions to access them in event handlers without dependency issues
   const dimensionsRef = useRef<GameDimensions>({ width: 0, height: 0 });
 
-  // Game State
-  const [score, setScore] = useState(0);
-  const [streak, setStreak] = useState(0);
-  const [level, setLevel] = useState(1);
-  const [levelProgress, setLevelProgress] = useState(0); // 0 to 100
-  const [isBossFight, setIsBossFight] = useState(false);
-  const [selectedColor, setSelectedColor] = useState<ColorType>(ColorType.RED);
+  // Headless simulation (utils/engine.ts). This component only feeds it inputs and renders its state.
+  const engineRef = useRef<EngineState>(null!);
+  // Live runs are recorded; in replay mode the engine is driven by the recorded log instead
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  if (engineRef.current === null) {
+    if (replay) {
+      playbackRef.current = startPlayback(replay);
+      engineRef.current = playbackRef.current.engine;
+    } else if (resumeRun) {
+      engineRef.current = resumeRun.engine;
+      const recording = resumeRun.replay ? decodeReplay(resumeRun.replay) : null;
+      if (recording) recorderRef.current = { replay: recording };
+    } else {
+      engineRef.current = createEngineState(difficulty, seed, config);
+      // The tutorial drives the engine outside the input log, and practice runs don't count,
+      // so neither is recorded
+      if (!initialTutorial && config.mode !== GameMode.PRACTICE) recorderRef.current = createReplayRecorder(engineRef.current.seed, difficulty, config);
+    }
+  }
+  // Inputs from event handlers, consumed by the next animation frame
+  const inputQueueRef = useRef<EngineInput[]>([]);
+  // Tick of the last saved snapshot, so the run can be continued after a reload
+  const lastSnapshotTickRef = useRef<number>(engineRef.current.tick);
+  // Set once the frozen scene has been drawn for the current pause
+  const pausedFrameDrawnRef = useRef(false);
+
+  // Game State (seeded from the engine so a restored run shows its HUD straight away)
+  const [score, setScore] = useState(() => Math.floor(engineRef.current.score));
+  const [streak, setStreak] = useState(engineRef.current.streak);
+  const [level, setLevel] = useState(engineRef.current.level);
+  const [levelProgress, setLevelProgress] = useState(() => getLevelProgress(engineRef.current)); // 0 to 100
+  const [isBossFight, setIsBossFight] = useState(engineRef.current.bossActive);
+  const [selectedColor, setSelectedColor] = useState<ColorType>(engineRef.current.currentColor);
+  const isCoop = engineRef.current.config.mode === GameMode.COOP;
+  const [partnerColor, setPartnerColor] = useState<ColorType>(engineRef.current.partnerColor); // Co-op: right-hand shooter
+  const isColorQueue = engineRef.current.config.mode === GameMode.QUEUE;
+  const hasAmmo = engineRef.current.config.mode === GameMode.AMMO;
+  const [ammo, setAmmo] = useState(engineRef.current.ammo);
+  const [reloadTimer, setReloadTimer] = useState(engineRef.current.reloadTimer);
+  // Same counters the session stats keep, so the live figure matches the one saved afterwards
+  const [ammoShotsLanded, setAmmoShotsLanded] = useState(engineRef.current.stats.ammoShotsLanded);
+  const [ammoShotsFired, setAmmoShotsFired] = useState(engineRef.current.stats.ammoShotsFired);
+  // Active power-ups (ms left on each timed one)
+  const [slowMoTimer, setSlowMoTimer] = useState(engineRef.current.slowMoTimer);
+  const [multishotTimer, setMultishotTimer] = useState(engineRef.current.multishotTimer);
+  const [rainbowTimer, setRainbowTimer] = useState(engineRef.current.rainbowTimer);
+  const [hasShield, setHasShield] = useState(engineRef.current.hasShield);
+  const [colorQueue, setColorQueue] = useState<ColorType[]>(engineRef.current.colorQueue);
+  const [heldColor, setHeldColor] = useState<ColorType | null>(engineRef.current.heldColor);
+  const [scorePenalty, setScorePenalty] = useState<number | null>(null); // Points lost to the last shot into empty space
   const [shooterPulse, setShooterPulse] = useState(false);
+  const isTimeAttack = engineRef.current.config.mode === GameMode.TIME_ATTACK;
+  const [timeRemaining, setTimeRemaining] = useState(engineRef.current.timeRemaining);
+  const [timeChange, setTimeChange] = useState<number | null>(null); // Last bonus or penalty, in ms
+  const hasLives = engineRef.current.config.mode === GameMode.LIVES;
+  const [lives, setLives] = useState(engineRef.current.lives);
+  const [isInvulnerable, setIsInvulnerable] = useState(false);
+  const [damageFlash, setDamageFlash] = useState(false);
+  const isPractice = engineRef.current.config.mode === GameMode.PRACTICE;
+  const [shotsLanded, setShotsLanded] = useState(engineRef.current.shotsLanded);
+  const [shotsFired, setShotsFired] = useState(engineRef.current.stats.shotsFired);
+  const stage = engineRef.current.config.mode === GameMode.CAMPAIGN ? engineRef.current.config.stage : undefined;
+  const [waveIndex, setWaveIndex] = useState(engineRef.current.waveIndex);
+  const [runTime, setRunTime] = useState(engineRef.current.time);
+  const isBossRush = engineRef.current.config.mode === GameMode.BOSS_RUSH;
+  const [bossesBeaten, setBossesBeaten] = useState(engineRef.current.bossSplits.length);
+
+  // Replay Viewer State
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayFinished, setReplayFinished] = useState(false);
   
   // Tutorial State
   const [tutorialStep, setTutorialStep] = useState(initialTutorial ? 1 : 0);
@@ -48,67 +168,23 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
   // Entities State for rendering
   const [projectiles, setProjectiles] = useState<Projectile[]>([]);
   const [targets, setTargets] = useState<Target[]>([]);
+  const [pickups, setPickups] = useState<Pickup[]>([]);
   const [activeParticles, setActiveParticles] = useState<Particle[]>([]);
   const [shake, setShake] = useState(false);
-  
-  // Session Stats Ref
-  const sessionStatsRef = useRef<GameStats>({
-    totalScore: 0,
-    highScore: 0, 
-    gamesPlayed: 1,
-    shotsFired: 0,
-    targetsHit: 0,
-    targetsMissed: 0,
-    highestStreak: 0,
-    toughKills: 0,
-    splitKills: 0,
-    stationaryKills: 0,
-    colorShiftKills: 0,
-    sineWaveKills: 0,
-    bossKills: 0,
-    highestLevel: 1,
-    hardModeGames: difficulty === Difficulty.HARD ? 1 : 0
-  });
 
-  // Logic Refs
-  const gameStateRef = useRef({
-    projectilePool: [] as Projectile[], 
-    particlePool: [] as Particle[], // Pooled particles
-    particleCursor: 0, // Cursor for ring buffer allocation
-    targets: [] as Target[],
-    currentColor: ColorType.RED,
-    score: 0,
-    level: 1,
-    scoreSinceLastBoss: 0,
-    bossActive: false,
-    streak: 0,
-    speedMultiplier: 1,
-    baseSpawnInterval: GAME_CONFIG.SPAWN_INTERVAL_START * diffSettings.spawnIntervalMultiplier,
-    nextSpawnDelay: 0, 
-    isGameOver: false,
-    isEnding: false,
-    shakeTimer: 0,
-    time: 0,
-    lastScoreMilestone: 0
+  // Particles are purely cosmetic, so they live here rather than in the engine
+  const particlesRef = useRef({
+    pool: [] as Particle[],
+    cursor: 0 // Cursor for ring buffer allocation
   });
 
   // Initialize Pooling
   useEffect(() => {
     if (poolsInitializedRef.current) return;
     
-    // Projectiles
-    for (let i = 0; i < 50; i++) {
-      gameStateRef.current.projectilePool.push({
-        id: `pool-${i}`,
-        x: 0, y: 0, vx: 0, vy: 0,
-        color: ColorType.RED,
-        radius: GAME_CONFIG.PROJECTILE_RADIUS,
-        active: false
-      });
-    }
     // Particles (Fixed Max Pool for Performance - Ring Buffer)
     for (let i = 0; i < 600; i++) {
-      gameStateRef.current.particlePool.push({
+      particlesRef.current.pool.push({
         id: `p-pool-${i}`,
         x: 0, y: 0, vx: 0, vy: 0, life: 0, color: '#fff', size: 0, 
         active: false, type: 'BURST'
@@ -125,6 +201,8 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
       if (containerRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
         dimensionsRef.current = { width: clientWidth, height: clientHeight };
+        // Replays carry their own recorded dimensions
+        if (!playbackRef.current) inputQueueRef.current.push({ type: 'RESIZE', width: clientWidth, height: clientHeight });
       }
     };
     
@@ -135,27 +213,29 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
     return () => resizeObserver.disconnect();
   }, []);
 
-  const handleColorSelect = useCallback((color: ColorType) => {
-    setSelectedColor(color);
-    gameStateRef.current.currentColor = color;
+  const handleColorSelect = useCallback((color: ColorType, player: number = 0) => {
+    if (playbackRef.current || isPaused || isColorQueue) return;
+    if (player === 1) {
+        setPartnerColor(color);
+        inputQueueRef.current.push({ type: 'SELECT_COLOR', color, player });
+    } else {
+        setSelectedColor(color);
+        inputQueueRef.current.push({ type: 'SELECT_COLOR', color });
+    }
     playSound('rotate', isMuted);
     if (tutorialStep === 1) {
         setTutorialStep(2);
         // Spawn a dummy target so the user has something to aim at in Step 2
-        gameStateRef.current.targets.push({
-            id: 'tutorial-target',
-            x: dimensionsRef.current.width / 2,
-            y: dimensionsRef.current.height / 3,
-            vx: 0, vy: 0,
-            color: color,
-            radius: GAME_CONFIG.TARGET_RADIUS,
-            rotation: 0, rotationSpeed: 1.5,
-            type: TargetType.STATIONARY,
-            shape: TargetShape.CIRCLE,
-            health: 1
-        });
+        spawnTutorialTarget(engineRef.current, color);
     }
-  }, [isMuted, tutorialStep]);
+  }, [isMuted, tutorialStep, isPaused, isColorQueue]);
+
+  // Color queue: the hold slot is the only choice the player gets
+  const handleSwap = useCallback(() => {
+    if (playbackRef.current || isPaused) return;
+    inputQueueRef.current.push({ type: 'SWAP' });
+    playSound('rotate', isMuted);
+  }, [isMuted, isPaused]);
 
   // Handle Mouse Scroll for Color Switching
   useEffect(() => {
@@ -164,6 +244,11 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
         if (now - lastScrollTimeRef.current < 50) return; // Throttle
         lastScrollTimeRef.current = now;
 
+        if (isColorQueue) {
+            handleSwap();
+            return;
+        }
+
         const currentIndex = COLOR_KEYS.indexOf(selectedColor);
         // Standard: scroll down (positive deltaY) -> next item.
         const direction = e.deltaY > 0 ? 1 : -1;
@@ -178,18 +263,18 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
     // Passive true allows default scrolling, false would let us preventDefault but blocking scroll is aggressive.
     window.addEventListener('wheel', handleWheel, { passive: true });
     return () => window.removeEventListener('wheel', handleWheel);
-  }, [selectedColor, handleColorSelect]);
+  }, [selectedColor, handleColorSelect, isColorQueue, handleSwap]);
 
   // Optimized Particle Spawner using Ring Buffer (O(1))
   const spawnParticle = useCallback((config: Partial<Particle>) => {
-    const state = gameStateRef.current;
-    if (state.particlePool.length === 0) return;
+    const particles = particlesRef.current;
+    if (particles.pool.length === 0) return;
 
-    const idx = state.particleCursor;
-    const p = state.particlePool[idx];
+    const idx = particles.cursor;
+    const p = particles.pool[idx];
     
     // Increment cursor for next spawn
-    state.particleCursor = (idx + 1) % state.particlePool.length;
+    particles.cursor = (idx + 1) % particles.pool.length;
     
     // Reset and Assign new config
     if (p) {
@@ -200,160 +285,34 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
     }
   }, []);
 
-  const getAimAssistVector = (
-    startX: number, 
-    startY: number, 
-    baseVx: number, 
-    baseVy: number,
-    targets: Target[]
-  ): { vx: number, vy: number, assisted: boolean } => {
-    const ASSIST_CONE_ANGLE = 15 * (Math.PI / 180);
-    const ASSIST_STRENGTH = 0.3;
-
-    let bestTarget: Target | null = null;
-    let minAngleDiff = Infinity;
-    let perfectVx = 0;
-    let perfectVy = 0;
-
-    const baseAngle = Math.atan2(baseVy, baseVx);
-    const speed = Math.sqrt(baseVx*baseVx + baseVy*baseVy);
-
-    if (speed < 0.1) return { vx: baseVx, vy: baseVy, assisted: false };
-
-    for (const t of targets) {
-      // Only assist towards matching colors
-      if (t.color !== gameStateRef.current.currentColor) continue;
-
-      const dx = t.x - startX;
-      const dy = t.y - startY;
-      const dist = Math.sqrt(dx*dx + dy*dy);
-      
-      if (dist <= 0.1) continue; // Prevent division by zero
-
-      const angleToTarget = Math.atan2(dy, dx);
-      
-      let angleDiff = Math.abs(angleToTarget - baseAngle);
-      if (angleDiff > Math.PI) angleDiff = 2 * Math.PI - angleDiff;
-
-      if (angleDiff < ASSIST_CONE_ANGLE && angleDiff < minAngleDiff) {
-        minAngleDiff = angleDiff;
-        bestTarget = t;
-        perfectVx = (dx / dist) * speed;
-        perfectVy = (dy / dist) * speed;
-      }
-    }
-
-    if (bestTarget) {
-      const newVx = baseVx + (perfectVx - baseVx) * ASSIST_STRENGTH;
-      const newVy = baseVy + (perfectVy - baseVy) * ASSIST_STRENGTH;
-      const newSpeed = Math.sqrt(newVx*newVx + newVy*newVy);
-      
-      if (newSpeed > 0) {
-          return {
-            vx: (newVx / newSpeed) * speed,
-            vy: (newVy / newSpeed) * speed,
-            assisted: true
-          };
-      }
-    }
-
-    return { vx: baseVx, vy: baseVy, assisted: false };
-  };
-
+  // The engine validates the shot (cooldown, controls area) and answers with a SHOT event.
+  // In co-op each shot goes to the shooter on the side of the screen it was tapped on.
   const shoot = useCallback((targetX: number, targetY: number) => {
-    if (tutorialStep === 1) return;
-    
-    const now = Date.now();
-    if (now - lastShotTimeRef.current < 150) return;
-
-    if (gameStateRef.current.isGameOver || gameStateRef.current.isEnding) return;
-    const { width, height } = dimensionsRef.current;
-    if (width === 0 || height === 0) return;
-    if (targetY > height - GAME_CONFIG.CONTROLS_HEIGHT) return;
-
-    const shooterX = width / 2;
-    const shooterY = height - GAME_CONFIG.CONTROLS_HEIGHT - 20;
-
-    setShooterPulse(true);
-    setTimeout(() => setShooterPulse(false), 150);
-
-    const dx = targetX - shooterX;
-    const dy = targetY - shooterY;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    if (distance < 1) return; 
-
-    const speed = GAME_CONFIG.PROJECTILE_SPEED;
-    const rawVx = (dx / distance) * speed;
-    const rawVy = (dy / distance) * speed;
-
-    const { vx, vy } = getAimAssistVector(
-        shooterX, shooterY, rawVx, rawVy, gameStateRef.current.targets
-    );
-
-    if (isNaN(vx) || isNaN(vy)) return; // Safety check
-
-    const pool = gameStateRef.current.projectilePool;
-    let projectile = pool.find(p => !p.active);
-
-    if (!projectile) {
-      projectile = {
-        id: `pool-extra-${Date.now()}`,
-        x: 0, y: 0, vx: 0, vy: 0,
-        color: ColorType.RED,
-        radius: GAME_CONFIG.PROJECTILE_RADIUS,
-        active: false
-      };
-      pool.push(projectile);
-    }
-
-    projectile.x = shooterX;
-    projectile.y = shooterY;
-    projectile.vx = vx;
-    projectile.vy = vy;
-    projectile.color = gameStateRef.current.currentColor;
-    projectile.active = true;
-    projectile.id = `shot-${now}-${Math.random()}`;
-    
-    sessionStatsRef.current.shotsFired++;
-
-    // Muzzle Flash
-    for(let i=0; i<3; i++) {
-        spawnParticle({
-            x: shooterX,
-            y: shooterY - GAME_CONFIG.SHOOTER_RADIUS,
-            vx: (Math.random() - 0.5) * 3,
-            vy: -1 - Math.random() * 2,
-            life: 0.2 + Math.random() * 0.1,
-            color: theme === 'dark' ? '#ffffff' : '#334155',
-            size: 8 + Math.random() * 8,
-            type: 'BURST'
-        });
-    }
-
-    lastShotTimeRef.current = now;
-    
-    // Change: Use 'shoot' sound instead of 'score'
-    playSound('shoot', isMuted); 
-
-    if (tutorialStep === 2) {
-        setTutorialStep(0);
-        onTutorialComplete();
-    }
-
-  }, [isMuted, tutorialStep, onTutorialComplete, theme, spawnParticle]);
+    if (tutorialStep === 1 || playbackRef.current || isPaused) return;
+    // Whole pixels keep the recorded input log compact
+    const x = Math.round(targetX);
+    const y = Math.round(targetY);
+    if (isCoop && targetX > dimensionsRef.current.width / 2) inputQueueRef.current.push({ type: 'SHOOT', x, y, player: 1 });
+    else inputQueueRef.current.push({ type: 'SHOOT', x, y });
+  }, [tutorialStep, isPaused, isCoop]);
 
   useEffect(() => {
+    const isInControls = (clientY: number) =>
+        !!dimensionsRef.current.height && clientY > dimensionsRef.current.height - GAME_CONFIG.CONTROLS_HEIGHT;
+
+    // Every new finger counts, so two players can fire at the same moment
     const handleTouch = (e: TouchEvent) => {
-        if (e.touches.length > 0) {
-            const touch = e.touches[0];
-            if (dimensionsRef.current.height && touch.clientY > dimensionsRef.current.height - GAME_CONFIG.CONTROLS_HEIGHT) return;
-            if (e.cancelable) e.preventDefault();
+        let handled = false;
+        for (const touch of Array.from(e.changedTouches)) {
+            if (isInControls(touch.clientY)) continue;
             shoot(touch.clientX, touch.clientY);
+            handled = true;
         }
+        if (handled && e.cancelable) e.preventDefault();
     };
 
     const handleMouseDown = (e: MouseEvent) => {
-        if (dimensionsRef.current.height && e.clientY > dimensionsRef.current.height - GAME_CONFIG.CONTROLS_HEIGHT) return;
+        if (isInControls(e.clientY)) return;
         shoot(e.clientX, e.clientY);
     };
 
@@ -370,8 +329,23 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
     };
   }, [shoot]);
 
+  // Muzzle Flash
+  const spawnMuzzleFlash = useCallback((x: number, y: number) => {
+    for(let i=0; i<3; i++) {
+        spawnParticle({
+            x, y,
+            vx: (Math.random() - 0.5) * 3,
+            vy: -1 - Math.random() * 2,
+            life: 0.2 + Math.random() * 0.1,
+            color: theme === 'dark' ? '#ffffff' : '#334155',
+            size: 8 + Math.random() * 8,
+            type: 'BURST'
+        });
+    }
+  }, [spawnParticle, theme]);
+
   // Enhanced Particle Spawner
-  const spawnHitParticles = useCallback((x: number, y: number, color: string, type: TargetType | 'MISS', accuracy: number = 0.5) => {
+  const spawnHitParticles = useCallback((x: number, y: number, color: string, type: TargetType | 'MISS' | 'PICKUP', accuracy: number = 0.5) => {
     let count = 12 + Math.floor(accuracy * 15); // More accuracy = more particles
     let speedBase = 4 + accuracy * 3;
     let sizeBase = 5;
@@ -407,6 +381,34 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
                 life: 0.3, color: '#ffff00', size: 3, type: 'SPARK'
             });
         }
+    } else if (type === 'PICKUP') {
+        count = 16;
+        speedBase = 3;
+        spawnParticle({ x, y, vx: 0, vy: 0, life: 0.6, color, size: TIME_ATTACK.PICKUP_RADIUS * 3, type: 'RING', active: true });
+    } else if (type === TargetType.BOMB) {
+        // Shockwave roughly the size of the blast
+        count = 40;
+        speedBase = 12;
+        sizeBase = 8;
+        spawnParticle({ x, y, vx: 0, vy: 0, life: 1, color, size: BOMB.RADIUS, type: 'RING', active: true });
+        spawnParticle({ x, y, vx: 0, vy: 0, life: 0.8, color: '#fff', size: GAME_CONFIG.TARGET_RADIUS * 2, type: 'RING', active: true });
+    } else if (type === TargetType.CLUSTER) {
+        // Core cleared: a shockwave as wide as the orbit it was hiding in
+        count = 50;
+        speedBase = 12;
+        sizeBase = 8;
+        spawnParticle({ x, y, vx: 0, vy: 0, life: 1, color, size: CLUSTER.ORBIT_RADIUS * 2, type: 'RING', active: true });
+        spawnParticle({ x, y, vx: 0, vy: 0, life: 0.8, color: '#fff', size: CLUSTER.ORBIT_RADIUS, type: 'RING', active: true });
+    } else if (type === TargetType.MIRROR) {
+        // Glints off the facets; the colored burst only comes when the mirror itself breaks
+        count = Math.floor(accuracy * 20);
+        for(let i=0; i<6; i++) {
+             spawnParticle({
+                x, y,
+                vx: (Math.random() - 0.5) * 12, vy: (Math.random() - 0.5) * 12,
+                life: 0.3, color: MIRROR.RIM_COLOR, size: 3, type: 'SPARK'
+            });
+        }
     } else if (type === TargetType.SPLIT) {
         count = 30;
         spawnParticle({ x, y, vx: 0, vy: 0, life: 0.8, color, size: GAME_CONFIG.TARGET_RADIUS * 2.5, type: 'RING', active: true });
@@ -442,20 +444,195 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
 
   }, [spawnParticle, theme]);
 
+  // The canvas is redrawn every frame; the DOM renderer goes through React state
+  // and keeps its entities frozen once the run is ending.
+  const renderScene = useCallback((renderTargets: Target[], renderProjectiles: Projectile[], renderPickups: Pickup[], particles: Particle[], now: number) => {
+    const engine = engineRef.current;
+    if (renderer === 'canvas') {
+        if (canvasRef.current) {
+            drawScene(canvasRef.current, {
+                width: engine.dimensions.width,
+                height: engine.dimensions.height,
+                targets: renderTargets,
+                projectiles: renderProjectiles,
+                pickups: renderPickups,
+                particles,
+                time: engine.time,
+                now,
+                theme
+            });
+        }
+    } else {
+        setActiveParticles(particles);
+        if (!engine.isEnding) {
+            setProjectiles(renderProjectiles);
+            setTargets(renderTargets);
+            setPickups(renderPickups);
+        }
+    }
+  }, [renderer, theme]);
+
+  // Only recorded live runs are saved: replays and the tutorial can't be continued
+  const saveSnapshot = useCallback(() => {
+    const engine = engineRef.current;
+    const recorder = recorderRef.current;
+    if (!recorder || engine.isEnding || engine.isGameOver || engine.tick === 0) return;
+    saveRunSnapshot({
+        version: RUN_SNAPSHOT_VERSION,
+        savedAt: Date.now(),
+        engine,
+        replay: encodeReplay(recorder.replay),
+        dailyKey
+    });
+    lastSnapshotTickRef.current = engine.tick;
+  }, [dailyKey]);
+
+  // Redraw the frozen scene if the renderer or theme changes while paused
+  useEffect(() => {
+    pausedFrameDrawnRef.current = false;
+  }, [renderScene]);
+
+  // Save straight away when pausing, since that's usually the app going to the background
+  useEffect(() => {
+    if (isPaused) saveSnapshot();
+  }, [isPaused, saveSnapshot]);
+
   // Main Game Loop
   const animate = useCallback((time: number) => {
     if (!lastTimeRef.current) lastTimeRef.current = time;
     const deltaTime = time - lastTimeRef.current;
     lastTimeRef.current = time;
 
+    // While paused nothing advances, so resuming picks up exactly where the run stopped.
+    // A restored run starts paused, so the frozen scene is drawn once.
+    if (isPaused) {
+        if (!pausedFrameDrawnRef.current) {
+            pausedFrameDrawnRef.current = true;
+            const engine = engineRef.current;
+            const alpha = getInterpolationAlpha(engine);
+            renderScene(
+                interpolateTargets(engine.targets, alpha),
+                interpolateProjectiles(engine.projectilePool.filter(p => p.active), alpha),
+                interpolatePickups(engine.pickups, alpha),
+                particlesRef.current.pool.filter(p => p.active),
+                time
+            );
+        }
+        requestRef.current = requestAnimationFrame(animate);
+        return;
+    }
+    pausedFrameDrawnRef.current = false;
+
+    // Particles are cosmetic and still move with the real frame time
     const timeFactor = Math.min(deltaTime / 16.667, 4);
-    const state = gameStateRef.current;
-    
-    if (state.isGameOver && !state.isEnding) return;
+    const engine = engineRef.current;
+    const playback = playbackRef.current;
+    if (engine.isGameOver && !playback) return;
+
+    // 1. Advance the simulation
+    const events: EngineEvent[] = [];
+    if (playback) {
+        // Re-simulate as many recorded ticks as the elapsed (speed-scaled) time covers
+        engine.accumulator += Math.min(deltaTime, 250) * replaySpeed;
+        while (engine.accumulator >= TICK_MS && !isPlaybackFinished(playback)) {
+            engine.accumulator -= TICK_MS;
+            events.push(...stepPlayback(playback));
+        }
+        if (isPlaybackFinished(playback)) engine.accumulator = 0;
+    } else {
+        engine.isTutorial = tutorialStep > 0;
+        const inputs = inputQueueRef.current;
+        inputQueueRef.current = [];
+        if (recorderRef.current) recordInputs(recorderRef.current, engine.tick, inputs);
+        events.push(...advanceGame(engine, deltaTime, inputs));
+        if (recorderRef.current) recordTicks(recorderRef.current, engine.tick);
+
+        // A lost run must not be restorable, otherwise reloading would undo the mismatch
+        if (engine.isEnding) {
+            if (lastSnapshotTickRef.current >= 0) clearRunSnapshot();
+            lastSnapshotTickRef.current = -1;
+        } else if (engine.tick - lastSnapshotTickRef.current >= SNAPSHOT_INTERVAL_TICKS || events.some(isSetback)) {
+            saveSnapshot();
+        }
+    }
+
+    // 2. React to engine events
+    for (const event of events) {
+        switch (event.type) {
+            case 'SOUND':
+                playSound(event.sound, isMuted);
+                break;
+            case 'SHAKE':
+                setShake(true);
+                shakeTimerRef.current = event.duration;
+                break;
+            case 'SHOT':
+                setShooterPulse(true);
+                shooterPulseTimerRef.current = 150;
+                spawnMuzzleFlash(event.x, event.y);
+                if (tutorialStep === 2) {
+                    setTutorialStep(0);
+                    onTutorialComplete();
+                }
+                break;
+            case 'PARTICLES': {
+                let color = '#ffffff';
+                if (event.color) color = COLORS[event.color];
+                else if (event.effect === 'PICKUP') color = PICKUP_STYLES[event.kind ?? 'TIME'].color;
+                else if (event.effect === TargetType.TOUGH) color = theme === 'dark' ? '#ffffff' : '#000000';
+                spawnHitParticles(event.x, event.y, color, event.effect, event.accuracy);
+                break;
+            }
+            case 'TIME_CHANGE':
+                setTimeChange(event.amount);
+                timeChangeTimerRef.current = TIME_CHANGE_FLASH;
+                break;
+            case 'SCORE_PENALTY':
+                setScorePenalty(event.amount);
+                penaltyTimerRef.current = PENALTY_FLASH;
+                break;
+            case 'LIFE_CHANGE':
+                if (event.amount < 0) {
+                    setDamageFlash(true);
+                    damageFlashTimerRef.current = DAMAGE_FLASH;
+                }
+                break;
+            case 'GAME_OVER':
+                if (playback) {
+                    setReplayFinished(true);
+                    break;
+                }
+                clearRunSnapshot();
+                if (recorderRef.current) recorderRef.current.replay.score = event.score;
+                onGameOver(event.score, event.stats, event.seed, recorderRef.current?.replay ?? null, event.cleared, event.bossSplits);
+                return;
+        }
+    }
 
-    // 1. Update Particles (Efficient Iteration)
+    if (shakeTimerRef.current > 0) {
+        shakeTimerRef.current -= deltaTime;
+        if (shakeTimerRef.current <= 0) setShake(false);
+    }
+    if (shooterPulseTimerRef.current > 0) {
+        shooterPulseTimerRef.current -= deltaTime;
+        if (shooterPulseTimerRef.current <= 0) setShooterPulse(false);
+    }
+    if (timeChangeTimerRef.current > 0) {
+        timeChangeTimerRef.current -= deltaTime;
+        if (timeChangeTimerRef.current <= 0) setTimeChange(null);
+    }
+    if (penaltyTimerRef.current > 0) {
+        penaltyTimerRef.current -= deltaTime;
+        if (penaltyTimerRef.current <= 0) setScorePenalty(null);
+    }
+    if (damageFlashTimerRef.current > 0) {
+        damageFlashTimerRef.current -= deltaTime;
+        if (damageFlashTimerRef.current <= 0) setDamageFlash(false);
+    }
+
+    // 3. Update Particles (Efficient Iteration)
     const activeParticlesList: Particle[] = [];
-    for(const p of state.particlePool) {
+    for(const p of particlesRef.current.pool) {
          if (!p.active) continue;
 
          if (p.type === 'TRAIL') {
@@ -489,485 +666,70 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
         }
     }
 
-    if (state.isEnding) {
-        if (state.shakeTimer > 0) {
-            state.shakeTimer -= deltaTime;
-            if (state.shakeTimer <= 0) setShake(false);
-        }
-        setActiveParticles(activeParticlesList);
-        requestRef.current = requestAnimationFrame(animate);
-        return;
-    }
-
-    const isTutorial = tutorialStep > 0;
-    if (!isTutorial) state.time += deltaTime;
-    
-    const { width, height } = dimensionsRef.current;
-    if (width === 0 || height === 0) {
-        requestRef.current = requestAnimationFrame(animate);
-        return;
-    }
-
-    if (state.shakeTimer > 0) {
-        state.shakeTimer -= deltaTime;
-        if (state.shakeTimer <= 0) setShake(false);
+    // 4. Sync HUD
+    setScore(Math.floor(engine.score));
+    setStreak(engine.streak);
+    setLevel(engine.level);
+    setLevelProgress(getLevelProgress(engine));
+    setIsBossFight(engine.bossActive);
+    setTimeRemaining(engine.timeRemaining);
+    setLives(engine.lives);
+    setIsInvulnerable(engine.invulnerableTimer > 0);
+    setShotsLanded(engine.shotsLanded);
+    setShotsFired(engine.stats.shotsFired);
+    setWaveIndex(engine.waveIndex);
+    setRunTime(engine.time);
+    setBossesBeaten(engine.bossSplits.length);
+    setAmmo(engine.ammo);
+    setReloadTimer(engine.reloadTimer);
+    setAmmoShotsLanded(engine.stats.ammoShotsLanded);
+    setAmmoShotsFired(engine.stats.ammoShotsFired);
+    setSlowMoTimer(engine.slowMoTimer);
+    setMultishotTimer(engine.multishotTimer);
+    setRainbowTimer(engine.rainbowTimer);
+    setHasShield(engine.hasShield);
+    if (playback || isColorQueue) setSelectedColor(engine.currentColor);
+    if (playback) setPartnerColor(engine.partnerColor);
+    if (isColorQueue) {
+        setColorQueue(prev => prev.join() === engine.colorQueue.join() ? prev : [...engine.colorQueue]);
+        setHeldColor(engine.heldColor);
     }
 
-    const playableHeight = height - GAME_CONFIG.CONTROLS_HEIGHT;
-
-    // 2. Spawning Logic
-    if (!isTutorial) {
-        const pointsForNextLevel = GAME_CONFIG.POINTS_PER_LEVEL + (state.level * 100);
-
-        // Boss Trigger
-        if (!state.bossActive && state.scoreSinceLastBoss > pointsForNextLevel) {
-            state.bossActive = true;
-            state.scoreSinceLastBoss = 0;
-            playSound('whir', isMuted);
-            
-            // Clear some targets to make arena space
-            state.targets = state.targets.filter(t => Math.random() > 0.6);
-
-            const bossColor = COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)];
-            state.targets.push({
-                id: `boss-${Date.now()}`,
-                x: width / 2,
-                y: -120, // Enter from top
-                vx: (Math.random() - 0.5) * 2,
-                vy: 3, 
-                color: bossColor,
-                radius: GAME_CONFIG.BOSS_RADIUS,
-                rotation: 0, rotationSpeed: 1,
-                type: TargetType.BOSS,
-                shape: TargetShape.STAR,
-                health: 10 + (state.level * 5 * diffSettings.bossHealthMulti),
-                maxHealth: 10 + (state.level * 5 * diffSettings.bossHealthMulti),
-                colorShiftTimer: 0,
-                summonTimer: 4000 
-            });
-            setIsBossFight(true);
-        }
-
-        spawnTimerRef.current += deltaTime;
-        const effectiveSpawnDelay = state.bossActive ? state.nextSpawnDelay * 4 : state.nextSpawnDelay;
-
-        if (spawnTimerRef.current > effectiveSpawnDelay) {
-            spawnTimerRef.current = 0;
-            const intervalRandomness = 0.6 + Math.random() * 0.8; 
-            state.nextSpawnDelay = state.baseSpawnInterval * intervalRandomness;
-            
-            const calculatedMax = Math.floor(diffSettings.maxTargets * (1 + (state.speedMultiplier - 1) * 0.5));
-            const currentMaxTargets = Math.min(calculatedMax, 24);
-
-            if (state.targets.length < currentMaxTargets && (!state.bossActive || state.targets.length < 3)) {
-                const radius = GAME_CONFIG.TARGET_RADIUS;
-                const randomColor = COLOR_KEYS[Math.floor(Math.random() * COLOR_KEYS.length)];
-                
-                let startX = Math.random() * (width - radius * 2) + radius;
-                let startY = Math.random() * (playableHeight * 0.6) + radius; 
-                
-                // Avoid overlap on spawn
-                let validPosition = true;
-                for(const t of state.targets) {
-                    if (Math.hypot(t.x - startX, t.y - startY) < radius * 2 + 40) { 
-                        validPosition = false; break;
-                    }
-                }
-                
-                if (validPosition) {
-                    const angle = Math.random() * Math.PI * 2;
-                    const speed = GAME_CONFIG.TARGET_SPEED_BASE * state.speedMultiplier * diffSettings.speedMultiplier;
-
-                    let targetType = TargetType.NORMAL;
-                    let targetShape = TargetShape.CIRCLE;
-                    let targetHealth = 1;
-                    
-                    const availableShapes = [TargetShape.CIRCLE];
-                    if (state.level >= 2) availableShapes.push(TargetShape.SQUARE);
-                    if (state.level >= 3) availableShapes.push(TargetShape.TRIANGLE);
-                    if (state.level >= 4) availableShapes.push(TargetShape.DIAMOND);
-                    
-                    targetShape = availableShapes[Math.floor(Math.random() * availableShapes.length)];
-
-                    const roll = Math.random();
-                    const specialChance = difficulty === Difficulty.EASY ? 0.15 : difficulty === Difficulty.MEDIUM ? 0.35 : 0.6;
-                    
-                    if (state.score >= 15 || difficulty !== Difficulty.EASY) {
-                        if (roll < specialChance) {
-                            const typeRoll = Math.random();
-                            if (typeRoll < 0.25) targetType = TargetType.TOUGH;
-                            else if (typeRoll < 0.45) targetType = TargetType.SPLIT;
-                            else if (typeRoll < 0.65) targetType = TargetType.STATIONARY;
-                            else if (typeRoll < 0.85) targetType = TargetType.COLOR_SHIFT;
-                            else targetType = TargetType.SINE_WAVE;
-                        }
-                    }
-
-                    let vx = Math.cos(angle) * speed;
-                    let vy = Math.sin(angle) * speed;
-                    
-                    if (targetType === TargetType.TOUGH) {
-                        targetHealth = 3; vx *= 0.8; vy *= 0.8;
-                    } else if (targetType === TargetType.STATIONARY) {
-                        vx = 0; vy = 0;
-                    } else if (targetType === TargetType.SINE_WAVE) {
-                        vy = 0;
-                        vx = (Math.random() > 0.5 ? 1 : -1) * speed * 1.2;
-                        startY = Math.max(radius + 70, Math.min(playableHeight - radius - 70, startY)); 
-                    }
-
-                    state.targets.push({
-                        id: Math.random().toString(),
-                        x: startX, y: startY, vx, vy,
-                        color: randomColor,
-                        radius: radius,
-                        rotation: Math.random() * 360,
-                        rotationSpeed: (Math.random() - 0.5) * 2,
-                        type: targetType,
-                        shape: targetShape,
-                        health: targetHealth,
-                        colorShiftTimer: 0,
-                        initialY: startY,
-                        timeOffset: Math.random() * 1000
-                    });
-                }
+    // 5. Projectile Trails. Entities are drawn between the last two ticks so motion stays smooth
+    // on displays that refresh faster or slower than the simulation.
+    const alpha = getInterpolationAlpha(engine);
+    const activeProjectiles = interpolateProjectiles(engine.projectilePool.filter(p => p.active), alpha);
+    const renderTargets = interpolateTargets(engine.targets, alpha);
+    const renderPickups = interpolatePickups(engine.pickups, alpha);
+    if (!engine.isEnding) {
+        for (const proj of activeProjectiles) {
+            if (Math.random() > 0.6) {
+                spawnParticle({
+                    x: proj.x, y: proj.y, vx: 0, vy: 0, 
+                    life: 0.25, color: COLORS[proj.color], size: proj.radius * 0.6, type: 'TRAIL' 
+                });
             }
         }
     }
 
-    // 3. Physics & Logic
-    if (!isTutorial) {
-        const scoreMilestone = Math.floor(state.score / 20);
-        if (scoreMilestone > state.lastScoreMilestone) {
-            state.lastScoreMilestone = scoreMilestone;
-            state.speedMultiplier = Math.min(2.5, state.speedMultiplier + 0.05);
-        }
-
-        state.targets.forEach(target => {
-            // Boss Constraints
-            if (target.type === TargetType.BOSS) {
-                if (target.y < target.radius) {
-                    // If it's entering, let it enter, otherwise cap it
-                    if (target.vy < 0) target.vy = Math.abs(target.vy);
-                }
-                // Keep Boss in top area
-                if (target.y > playableHeight * 0.6) target.vy = -Math.abs(target.vy) * 1.2;
-
-                // Abilities
-                target.colorShiftTimer = (target.colorShiftTimer || 0) + deltaTime;
-                if (target.colorShiftTimer > 2500) {
-                    target.colorShiftTimer = 0;
-                    const remainingColors = COLOR_KEYS.filter(c => c !== target.color);
-                    target.color = remainingColors[Math.floor(Math.random() * remainingColors.length)];
-                    spawnHitParticles(target.x, target.y, '#ffffff', TargetType.COLOR_SHIFT);
-                    playSound('whir', isMuted); // Audio feedback for boss shift
-                }
-
-                target.summonTimer = (target.summonTimer || 0) - deltaTime;
-                if (target.summonTimer <= 0) {
-                    target.summonTimer = 5000; 
-                    for (let k=0; k<2; k++) {
-                        const angle = Math.random() * Math.PI * 2;
-                        const dist = target.radius + 40;
-                        const mX = target.x + Math.cos(angle) * dist;
-                        const mY = target.y + Math.sin(angle) * dist;
-                        state.targets.push({
-                            id: `minion-${Date.now()}-${k}`,
-                            x: mX, y: mY, vx: (Math.random() - 0.5) * 3, vy: (Math.random() - 0.5) * 3,
-                            color: target.color, radius: GAME_CONFIG.TARGET_RADIUS * 0.8,
-                            rotation: 0, rotationSpeed: 2, type: TargetType.NORMAL, shape: TargetShape.CIRCLE, health: 1
-                        });
-                        spawnHitParticles(mX, mY, COLORS[target.color], TargetType.SPLIT);
-                    }
-                    playSound('whir', isMuted);
-                }
-                
-                if (target.maxHealth && target.health < target.maxHealth * 0.4) {
-                    target.rotationSpeed = 5;
-                    if (Math.abs(target.vx) < 2) target.vx *= 1.01;
-                    if (Math.abs(target.vy) < 2) target.vy *= 1.01;
-                }
-            }
-            else if (target.type === TargetType.COLOR_SHIFT) {
-                target.colorShiftTimer = (target.colorShiftTimer || 0) + deltaTime;
-                if (target.colorShiftTimer > 2500) { 
-                    target.colorShiftTimer = 0;
-                    const remainingColors = COLOR_KEYS.filter(c => c !== target.color);
-                    target.color = remainingColors[Math.floor(Math.random() * remainingColors.length)];
-                    spawnHitParticles(target.x, target.y, '#ffffff', TargetType.COLOR_SHIFT);
-                }
-            }
-
-            if (target.type === TargetType.SINE_WAVE && target.initialY !== undefined) {
-                target.x += target.vx * timeFactor;
-                target.y = target.initialY + Math.sin((state.time + (target.timeOffset || 0)) * 0.004) * 60;
-            } else {
-                target.x += target.vx * timeFactor;
-                target.y += target.vy * timeFactor;
-            }
-            
-            target.rotation += target.rotationSpeed * timeFactor;
-        });
-    }
-
-    // 4. Refined Collision Physics
-    // Multi-step resolution for stability
-    const physicsSteps = 2;
-    for (let step = 0; step < physicsSteps; step++) {
-        // Target-Target Collision
-        for (let i = 0; i < state.targets.length; i++) {
-            for (let j = i + 1; j < state.targets.length; j++) {
-                const t1 = state.targets[i];
-                const t2 = state.targets[j];
-                
-                const dx = t2.x - t1.x;
-                const dy = t2.y - t1.y;
-                const distSq = dx * dx + dy * dy;
-                const minDist = t1.radius + t2.radius;
-                
-                if (distSq < minDist * minDist) {
-                    const dist = Math.sqrt(distSq);
-                    if (dist < 0.1) continue; // Avoid division by zero
-
-                    const nx = dx / dist;
-                    const ny = dy / dist;
-                    const overlap = minDist - dist;
-
-                    // Mass-based resolution
-                    // Boss = 100, Tough = 2, Normal = 1, Stationary = Infinite
-                    const getMass = (t: Target) => t.type === TargetType.BOSS ? 100 : (t.type === TargetType.TOUGH ? 3 : 1);
-                    const m1 = t1.type === TargetType.STATIONARY ? Infinity : getMass(t1);
-                    const m2 = t2.type === TargetType.STATIONARY ? Infinity : getMass(t2);
-                    
-                    const invM1 = m1 === Infinity ? 0 : 1/m1;
-                    const invM2 = m2 === Infinity ? 0 : 1/m2;
-                    const totalInvMass = invM1 + invM2;
-
-                    if (totalInvMass > 0) {
-                        // 1. Position Correction (Stop Sinking)
-                        const correctionPercent = 0.8; // Correct 80% of overlap per step
-                        const moveX = nx * (overlap * correctionPercent) / totalInvMass;
-                        const moveY = ny * (overlap * correctionPercent) / totalInvMass;
-                        
-                        // NaN Checks
-                        if (!isNaN(moveX) && !isNaN(moveY)) {
-                            if (m1 !== Infinity) { t1.x -= moveX * invM1; t1.y -= moveY * invM1; }
-                            if (m2 !== Infinity) { t2.x += moveX * invM2; t2.y += moveY * invM2; }
-                        }
-
-                        // 2. Impulse Resolution (Bounce)
-                        const dvx = t2.vx - t1.vx;
-                        const dvy = t2.vy - t1.vy;
-                        const velAlongNormal = dvx * nx + dvy * ny;
-
-                        if (velAlongNormal < 0) { // Only bounce if moving towards each other
-                            const restitution = 0.9; // Bounciness
-                            let j = -(1 + restitution) * velAlongNormal;
-                            j /= totalInvMass;
-                            
-                            const impulseX = j * nx;
-                            const impulseY = j * ny;
-                            
-                            if (!isNaN(impulseX) && !isNaN(impulseY)) {
-                                if (m1 !== Infinity) { t1.vx -= impulseX * invM1; t1.vy -= impulseY * invM1; }
-                                if (m2 !== Infinity) { t2.vx += impulseX * invM2; t2.vy += impulseY * invM2; }
-                            }
-                        }
-                    }
-                }
-            }
-        }
-
-        // Wall Constraints
-        state.targets.forEach(target => {
-             if (target.x - target.radius < 0) {
-                target.x = target.radius; 
-                target.vx = Math.abs(target.vx) * 0.9; 
-            } else if (target.x + target.radius > width) {
-                target.x = width - target.radius; 
-                target.vx = -Math.abs(target.vx) * 0.9;
-            }
-
-            if (target.type !== TargetType.SINE_WAVE && target.type !== TargetType.BOSS) {
-                if (target.y - target.radius < 0) {
-                    target.y = target.radius; 
-                    target.vy = Math.abs(target.vy) * 0.9;
-                } else if (target.y + target.radius > playableHeight) {
-                    target.y = playableHeight - target.radius; 
-                    target.vy = -Math.abs(target.vy) * 0.9;
-                }
-            } 
-        });
-    }
-
-    // 5. Projectile Update
-    let scoreChanged = false;
-    let streakChanged = false;
-    let levelChanged = false;
-
-    for (const proj of state.projectilePool) {
-        if (!proj.active) continue;
-
-        proj.x += proj.vx * timeFactor;
-        proj.y += proj.vy * timeFactor;
-
-        // Trail
-        if (Math.random() > 0.6) {
-            spawnParticle({
-                x: proj.x, y: proj.y, vx: 0, vy: 0, 
-                life: 0.25, color: COLORS[proj.color], size: proj.radius * 0.6, type: 'TRAIL' 
-            });
-        }
-        
-        let hit = false;
-        for (let i = state.targets.length - 1; i >= 0; i--) {
-            const target = state.targets[i];
-            const dx = proj.x - target.x;
-            const dy = proj.y - target.y;
-            const dist = Math.sqrt(dx * dx + dy * dy);
-            
-            if (dist < target.radius + 8) { // Slight hit tolerance
-                hit = true;
-                const accuracy = Math.max(0, 1 - (dist / target.radius)); 
-
-                if (proj.color === target.color) {
-                    // HIT
-                    state.streak += 1;
-                    if (state.streak > sessionStatsRef.current.highestStreak) sessionStatsRef.current.highestStreak = state.streak;
-                    
-                    // Streak Feedback Sound (Every 5 hits)
-                    if (state.streak > 0 && state.streak % 5 === 0) {
-                        playSound('streak', isMuted);
-                    }
-
-                    streakChanged = true;
-
-                    let destroy = true;
-                    setShake(true);
-                    state.shakeTimer = 150; 
-
-                    if ((target.type === TargetType.TOUGH || target.type === TargetType.BOSS) && target.health > 1) {
-                        destroy = false;
-                        target.health -= 1;
-                        state.score += (target.type === TargetType.BOSS ? 10 : 5) * diffSettings.scoreMultiplier;
-                        state.scoreSinceLastBoss += 10;
-                        scoreChanged = true;
-                        playSound('heavy', isMuted); 
-                        spawnHitParticles(proj.x, proj.y, theme === 'dark' ? '#ffffff' : '#000000', TargetType.TOUGH, accuracy);
-                    }
-
-                    if (destroy) {
-                        let multiplier = 1;
-                        if (state.streak > 5) multiplier = 1.5;
-                        if (state.streak > 10) multiplier = 2;
-                        if (state.streak > 20) multiplier = 3;
-                        
-                        const baseScore = TARGET_SCORES[target.type] || 10;
-                        state.score += baseScore * diffSettings.scoreMultiplier * multiplier;
-                        
-                        // Prevent instant level skipping by capping boss kill progress
-                        if (target.type === TargetType.BOSS) {
-                             state.scoreSinceLastBoss += 50; // Minimal progress for killing boss, since it resets anyway
-                        } else {
-                             state.scoreSinceLastBoss += baseScore * multiplier;
-                        }
-                        
-                        scoreChanged = true;
-                        
-                        if (target.type === TargetType.BOSS) {
-                             state.level++;
-                             playSound('levelUp', isMuted); // Level Up Sound
-                             state.bossActive = false;
-                             state.scoreSinceLastBoss = 0; // Reset progress for next level
-                             levelChanged = true;
-                             setIsBossFight(false); 
-                             sessionStatsRef.current.bossKills++;
-                             sessionStatsRef.current.highestLevel = Math.max(sessionStatsRef.current.highestLevel, state.level);
-                             state.speedMultiplier += 0.2;
-                             state.baseSpawnInterval = Math.max(300, state.baseSpawnInterval - 50);
-                             playSound('pop', isMuted); 
-                        } else {
-                            // Don't play regular score sound if we played a streak sound this frame, 
-                            // unless it's a split which has its own sound
-                            if (target.type === TargetType.SPLIT) {
-                                playSound('pop', isMuted);
-                            } else if (state.streak % 5 !== 0) {
-                                playSound('score', isMuted);
-                            }
-                        }
-                        
-                        // Stats tracking
-                        sessionStatsRef.current.targetsHit++;
-                        if (target.type === TargetType.TOUGH) sessionStatsRef.current.toughKills++;
-                        if (target.type === TargetType.SPLIT) sessionStatsRef.current.splitKills++;
-                        if (target.type === TargetType.STATIONARY) sessionStatsRef.current.stationaryKills++;
-                        if (target.type === TargetType.COLOR_SHIFT) sessionStatsRef.current.colorShiftKills++;
-                        if (target.type === TargetType.SINE_WAVE) sessionStatsRef.current.sineWaveKills++;
-
-                        state.targets.splice(i, 1);
-                        spawnHitParticles(target.x, target.y, COLORS[target.color], target.type, accuracy + 0.5); 
-
-                        if (target.type === TargetType.SPLIT) {
-                            const childRadius = target.radius * 0.6;
-                            for (let k = 0; k < 2; k++) {
-                                const angleOffset = (k === 0 ? 1 : -1) * (Math.PI / 3); 
-                                const baseAngle = Math.atan2(target.vy, target.vx);
-                                const newAngle = baseAngle + angleOffset;
-                                const speed = Math.max(4, Math.sqrt(target.vx*target.vx + target.vy*target.vy) * 1.5);
-                                state.targets.push({
-                                    id: Math.random().toString(),
-                                    x: target.x + Math.cos(newAngle) * 20,
-                                    y: target.y + Math.sin(newAngle) * 20,
-                                    vx: Math.cos(newAngle) * speed, vy: Math.sin(newAngle) * speed,
-                                    color: target.color, radius: childRadius,
-                                    rotation: 0, rotationSpeed: (Math.random() - 0.5) * 8,
-                                    type: TargetType.NORMAL, shape: TargetShape.CIRCLE, health: 1
-                                });
-                            }
-                        }
-                    }
-
-                } else {
-                    // MISMATCH
-                    state.streak = 0;
-                    setStreak(0); 
-                    state.isEnding = true;
-                    playSound('gameover', isMuted);
-                    setShake(true);
-                    state.shakeTimer = 500; 
-                    spawnHitParticles(proj.x, proj.y, '#94a3b8', 'MISS');
-                    
-                    sessionStatsRef.current.targetsMissed++;
-                    sessionStatsRef.current.totalScore = Math.floor(state.score);
-
-                    setTimeout(() => { onGameOver(Math.floor(state.score), sessionStatsRef.current); }, 1000);
-                }
-                proj.active = false;
-                break; 
-            }
-        }
-        if (!hit && (proj.x < -50 || proj.x > width + 50 || proj.y < -50 || proj.y > height + 50)) {
-             proj.active = false;
-        }
-    }
-
-    if (scoreChanged) {
-        setScore(Math.floor(state.score));
-        const threshold = GAME_CONFIG.POINTS_PER_LEVEL + (state.level * 100);
-        setLevelProgress(Math.min(100, (state.scoreSinceLastBoss / threshold) * 100));
-    }
-    if (streakChanged) setStreak(state.streak);
-    if (levelChanged) {
-        setLevel(state.level);
-        setLevelProgress(0);
-    }
-
-    setActiveParticles(activeParticlesList);
-    setProjectiles(state.projectilePool.filter(p => p.active));
-    setTargets([...state.targets]);
+    // 6. Render
+    renderScene(renderTargets, activeProjectiles, renderPickups, activeParticlesList, time);
 
     requestRef.current = requestAnimationFrame(animate);
-  }, [onGameOver, isMuted, difficulty, diffSettings, tutorialStep, theme, spawnHitParticles, spawnParticle]);
+  }, [onGameOver, isMuted, tutorialStep, theme, isPaused, onTutorialComplete, spawnHitParticles, spawnParticle, spawnMuzzleFlash, replaySpeed, renderScene, saveSnapshot, isColorQueue]);
+
+  const restartReplay = () => {
+    if (!replay) return;
+    playSound('ui', isMuted);
+    playbackRef.current = startPlayback(replay);
+    engineRef.current = playbackRef.current.engine;
+    setReplayFinished(false);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+    playSound('ui', isMuted);
+    setReplaySpeed(speed);
+  };
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
@@ -982,12 +744,68 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
       return <Flame size={16} className="text-red-400" />;
   };
 
-  const currentMultiplier = streak > 20 ? 3 : streak > 10 ? 2 : streak > 5 ? 1.5 : 1;
+  const currentMultiplier = getStreakMultiplier(streak);
+  const shooters = isCoop
+    ? [{ left: `${COOP.SHOOTER_OFFSET * 100}%`, color: selectedColor }, { left: `${(1 - COOP.SHOOTER_OFFSET) * 100}%`, color: partnerColor }]
+    : [{ left: '50%', color: selectedColor }];
   const controlBarClass = theme === 'dark' ? 'bg-slate-900/80 border-white/10' : 'bg-white/80 border-slate-200 shadow-lg';
   const textColor = theme === 'dark' ? 'text-white/90' : 'text-slate-800';
+  const subTextClass = theme === 'dark' ? 'text-white/60' : 'text-slate-500';
+
+  // Replays are drawn at their recorded size, scaled down to fit this screen if needed
+  const recordedDims = engineRef.current.dimensions;
+  const replayScale = replay && recordedDims.width > 0 && dimensionsRef.current.width > 0
+    ? Math.min(1, dimensionsRef.current.width / recordedDims.width, dimensionsRef.current.height / recordedDims.height)
+    : 1;
+  const entityLayerStyle = replay && recordedDims.width > 0
+    ? { width: recordedDims.width, height: recordedDims.height, transform: `scale(${replayScale})`, transformOrigin: 'top left' }
+    : undefined;
 
   return (
-    <div ref={containerRef} className={`relative w-full h-full overflow-hidden cursor-crosshair touch-action-none ${shake ? 'shake' : ''}`}>
+    <div ref={containerRef} className={`relative w-full h-full overflow-hidden ${replay ? '' : 'cursor-crosshair'} touch-action-none ${shake ? 'shake' : ''}`}>
+
+      {replay && (
+        <div className="absolute top-16 right-4 z-[56] flex flex-col items-end gap-2">
+            <div className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-indigo-600 text-white text-xs font-black tracking-widest uppercase shadow-lg">
+                <Film size={14} /> Replay
+                <button onClick={() => onExitReplay?.()} className="ml-1 opacity-70 hover:opacity-100">
+                    <X size={14} />
+                </button>
+            </div>
+            <div className={`flex gap-1 p-1 rounded-full backdrop-blur-sm ${theme === 'dark' ? 'bg-black/40' : 'bg-white/70 border border-slate-200'}`}>
+                {[1, 2, 4].map(speed => (
+                    <button
+                        key={speed}
+                        onClick={() => changeReplaySpeed(speed)}
+                        className={`px-2 py-0.5 rounded-full text-xs font-bold transition-colors ${replaySpeed === speed ? 'bg-indigo-500 text-white' : theme === 'dark' ? 'text-white/70 hover:text-white' : 'text-slate-600 hover:text-slate-900'}`}
+                    >
+                        {speed}x
+                    </button>
+                ))}
+            </div>
+        </div>
+      )}
+
+      {replay && replayFinished && (
+        <div className="absolute inset-0 z-[55] bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center gap-4 text-white animate-in fade-in duration-300">
+            <h2 className="text-3xl font-black tracking-tight">Replay Finished</h2>
+            <div className="text-lg text-slate-300">Score {replay.score}</div>
+            <div className="flex gap-2">
+                <button
+                    onClick={restartReplay}
+                    className="flex items-center gap-2 px-6 py-3 rounded-full bg-indigo-600 hover:bg-indigo-500 font-bold transition-all active:scale-95"
+                >
+                    <RotateCcw size={18} /> Watch Again
+                </button>
+                <button
+                    onClick={() => onExitReplay?.()}
+                    className="px-6 py-3 rounded-full bg-white/10 hover:bg-white/20 font-bold transition-all active:scale-95"
+                >
+                    Exit
+                </button>
+            </div>
+        </div>
+      )}
       
       {tutorialStep > 0 && (
         <div className="absolute inset-0 z-[55] bg-black/60 backdrop-blur-sm flex flex-col">
@@ -1027,12 +845,33 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
         </div>
       )}
 
+      {/* Lost a life: brief red tint over the playfield */}
+      <div className={`absolute inset-0 z-40 pointer-events-none transition-opacity duration-300 shadow-[inset_0_0_120px_rgba(239,68,68,0.7)] bg-red-500/10 ${damageFlash ? 'opacity-100' : 'opacity-0'}`} />
+
       {/* UI Header */}
       <div className="absolute top-6 left-6 z-50 pointer-events-none flex flex-col gap-2 w-64">
         <div className="flex items-end gap-2">
             <div className={`text-5xl font-black select-none drop-shadow-lg tracking-tighter ${textColor}`}>
                 {score}
             </div>
+
+            {scorePenalty !== null && scorePenalty > 0 && (
+                <span key={score} className="mb-2 text-sm font-black text-red-400 animate-in fade-in slide-in-from-bottom-1 duration-200">
+                    -{scorePenalty}
+                </span>
+            )}
+
+            {isTimeAttack && (
+                <div className={`flex items-center gap-1 px-2 py-1 mb-2 rounded-lg backdrop-blur-sm border font-black tabular-nums ${timeRemaining <= 10000 ? 'bg-red-500/20 border-red-500/40 text-red-400 animate-pulse' : theme === 'dark' ? 'bg-black/30 border-white/10 text-white/90' : 'bg-white/60 border-slate-300 text-slate-800'}`}>
+                    <Timer size={14} className="stroke-[3]" />
+                    <span className="text-lg leading-none">{formatClock(timeRemaining)}</span>
+                    {timeChange !== null && (
+                        <span key={timeChange} className={`text-xs animate-in fade-in slide-in-from-bottom-1 duration-200 ${timeChange > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {timeChange > 0 ? '+' : '-'}{Math.abs(timeChange) / 1000}s
+                        </span>
+                    )}
+                </div>
+            )}
             
             {/* Improved Multiplier Badge */}
             <div className={`transition-all duration-300 ${currentMultiplier > 1 ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-4'}`}>
@@ -1051,22 +890,104 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
                 {getDiffIcon()}
                 <span className="text-xs font-bold tracking-wider uppercase">{difficulty}</span>
             </div>
-            
-            {/* Level Indicator / Boss Bar */}
-            <div className={`relative overflow-hidden flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border min-w-[80px] ${theme === 'dark' ? 'bg-purple-500/10 border-purple-500/30 text-purple-300' : 'bg-purple-100 border-purple-300 text-purple-700'}`}>
-                <div 
-                    className={`absolute left-0 top-0 h-full transition-all duration-300 ease-out ${isBossFight ? 'bg-red-500/40 animate-pulse' : 'bg-purple-500/30'}`} 
-                    style={{ width: `${isBossFight ? 100 : levelProgress}%` }} 
-                />
-                <div className="relative z-10 flex items-center gap-1 w-full justify-center">
-                    {isBossFight ? <Skull size={12} className="text-red-400" /> : <Crown size={12} />}
-                    <span className={`text-xs font-bold tracking-wider uppercase ${isBossFight ? 'text-red-400' : ''}`}>
-                        {isBossFight ? 'BOSS' : `LVL ${level}`}
+
+            {hasLives && (
+                <div className={`flex items-center gap-0.5 px-2 py-1 rounded-md backdrop-blur-sm border ${theme === 'dark' ? 'bg-rose-500/10 border-rose-500/30' : 'bg-rose-100 border-rose-300'} ${isInvulnerable ? 'animate-pulse' : ''}`}>
+                    {Array.from({ length: Math.max(lives, LIVES_CONFIG.START) }, (_, i) => (
+                        <Heart key={i} size={14} className={i < lives ? 'text-rose-500 fill-rose-500' : 'text-rose-500/40'} />
+                    ))}
+                </div>
+            )}
+
+            {stage && (
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border tabular-nums ${theme === 'dark' ? 'bg-violet-500/10 border-violet-500/30 text-violet-300' : 'bg-violet-100 border-violet-300 text-violet-700'}`}>
+                    <Flag size={12} />
+                    <span className="text-xs font-bold tracking-wider uppercase">
+                        {stage.name} · {stage.goal.type === 'SURVIVE'
+                            ? formatClock(Math.max(0, stage.goal.seconds * 1000 - runTime))
+                            : `Wave ${waveIndex}/${stage.waves.length}`}
                     </span>
                 </div>
-            </div>
+            )}
+
+            {isBossRush && (
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border tabular-nums ${isBossFight ? 'animate-pulse' : ''} ${theme === 'dark' ? 'bg-red-500/10 border-red-500/30 text-red-300' : 'bg-red-100 border-red-300 text-red-700'}`}>
+                    <Skull size={12} />
+                    <span className="text-xs font-bold tracking-wider uppercase">
+                        Boss {Math.min(bossesBeaten + 1, BOSS_RUSH.BOSSES)}/{BOSS_RUSH.BOSSES} · {formatClock(runTime)}
+                    </span>
+                </div>
+            )}
+
+            {dailyKey && (
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border ${theme === 'dark' ? 'bg-orange-500/10 border-orange-500/30 text-orange-300' : 'bg-orange-100 border-orange-300 text-orange-700'}`}>
+                    <CalendarDays size={12} />
+                    <span className="text-xs font-bold tracking-wider uppercase">Daily</span>
+                </div>
+            )}
+            
+            {isCoop && (
+                <div className={`flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border ${theme === 'dark' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' : 'bg-emerald-100 border-emerald-300 text-emerald-700'}`}>
+                    <Users size={12} />
+                    <span className="text-xs font-bold tracking-wider uppercase">Co-op</span>
+                </div>
+            )}
+
+            {/* Level Indicator / Boss Bar (campaign stages and Boss Rush show their own progress instead) */}
+            {!stage && !isBossRush && (
+                <div className={`relative overflow-hidden flex items-center gap-1 px-2 py-1 rounded-md backdrop-blur-sm border min-w-[80px] ${theme === 'dark' ? 'bg-purple-500/10 border-purple-500/30 text-purple-300' : 'bg-purple-100 border-purple-300 text-purple-700'}`}>
+                    <div 
+                        className={`absolute left-0 top-0 h-full transition-all duration-300 ease-out ${isBossFight ? 'bg-red-500/40 animate-pulse' : 'bg-purple-500/30'}`} 
+                        style={{ width: `${isBossFight ? 100 : levelProgress}%` }} 
+                    />
+                    <div className="relative z-10 flex items-center gap-1 w-full justify-center">
+                        {isBossFight ? <Skull size={12} className="text-red-400" /> : <Crown size={12} />}
+                        <span className={`text-xs font-bold tracking-wider uppercase ${isBossFight ? 'text-red-400' : ''}`}>
+                            {isBossFight ? 'BOSS' : `LVL ${level}`}
+                        </span>
+                    </div>
+                </div>
+            )}
         </div>
         
+        {isPractice && (
+             <div className={`flex items-center gap-1 text-xs font-bold tracking-wider tabular-nums ${theme === 'dark' ? 'text-teal-300' : 'text-teal-700'}`}>
+                <Dumbbell size={12} /> PRACTICE · ACC {shotsFired > 0 ? Math.round((shotsLanded / shotsFired) * 100) : 0}% ({shotsLanded}/{shotsFired})
+             </div>
+        )}
+
+        {hasAmmo && (
+             <div className={`flex items-center gap-1 text-xs font-bold tracking-wider tabular-nums ${theme === 'dark' ? 'text-amber-300' : 'text-amber-700'}`}>
+                <Battery size={12} /> {reloadTimer > 0 ? 'RELOADING' : `AMMO ${ammo}/${AMMO_CONFIG.MAGAZINE}`} · EFF {ammoShotsFired > 0 ? Math.round((ammoShotsLanded / ammoShotsFired) * 100) : 0}%
+             </div>
+        )}
+
+        {(slowMoTimer > 0 || multishotTimer > 0 || rainbowTimer > 0 || hasShield) && (
+            <div className="flex flex-wrap items-center gap-1.5">
+                {([
+                    ['SLOW_MO', slowMoTimer, Snail],
+                    ['MULTISHOT', multishotTimer, GitFork],
+                    ['RAINBOW', rainbowTimer, Rainbow]
+                ] as const).filter(([, timer]) => timer > 0).map(([kind, timer, Icon]) => (
+                    <div
+                        key={kind}
+                        className={`flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs font-black tabular-nums ${timer < 1500 ? 'animate-pulse' : ''}`}
+                        style={{ color: PICKUP_STYLES[kind].color, borderColor: `${PICKUP_STYLES[kind].color}66`, backgroundColor: `${PICKUP_STYLES[kind].color}1a` }}
+                    >
+                        <Icon size={12} /> {Math.ceil(timer / 1000)}s
+                    </div>
+                ))}
+                {hasShield && (
+                    <div
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs font-black"
+                        style={{ color: PICKUP_STYLES.SHIELD.color, borderColor: `${PICKUP_STYLES.SHIELD.color}66`, backgroundColor: `${PICKUP_STYLES.SHIELD.color}1a` }}
+                    >
+                        <Shield size={12} /> SHIELD
+                    </div>
+                )}
+            </div>
+        )}
+
         {streak > 2 && (
              <div className="flex items-center gap-1 mt-1 text-orange-500 font-bold text-xs tracking-widest animate-pulse">
                 <Zap size={12} /> STREAK {streak}
@@ -1075,186 +996,38 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
       </div>
 
       {/* Render Entities */}
-      <div className="relative w-full h-full pointer-events-none">
-        {targets.map(target => {
-            const velocityAngle = Math.atan2(target.vy, target.vx) * (180 / Math.PI);
-            const isStationary = target.type === TargetType.STATIONARY;
-            const isBoss = target.type === TargetType.BOSS;
-            
-            let scale = 1;
-            if (target.type === TargetType.SINE_WAVE) {
-                 const sineTime = (gameStateRef.current.time + (target.timeOffset || 0));
-                 const sineValue = Math.sin(sineTime * 0.004);
-                 scale = 1 + 0.1 * Math.abs(sineValue); 
-            }
-
-            return (
-            <div
-                key={target.id}
-                className="absolute flex items-center justify-center"
+      <div className="relative w-full h-full pointer-events-none" style={entityLayerStyle}>
+        {renderer === 'canvas' && <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />}
+        {renderer === 'dom' && (
+            <DomScene targets={targets} projectiles={projectiles} pickups={pickups} particles={activeParticles} time={engineRef.current.time} theme={theme} />
+        )}
+        
+        {shooters.map(({ left, color }) => (
+            <div 
+                key={left}
+                className={`absolute transform -translate-x-1/2 flex flex-col items-center z-20 transition-all duration-100 ${tutorialStep === 1 ? 'z-[70]' : ''} ${isInvulnerable ? 'animate-pulse' : ''}`}
                 style={{
-                    width: target.radius * 2,
-                    height: target.radius * 2,
-                    left: target.x - target.radius,
-                    top: target.y - target.radius,
-                    transform: `scale(${scale})`,
-                    zIndex: isBoss ? 20 : 10
+                    left,
+                    bottom: GAME_CONFIG.CONTROLS_HEIGHT + 20,
+                    transform: shooterPulse ? 'translate(-50%, 0) scale(1.1)' : 'translate(-50%, 0) scale(1)',
+                    filter: shooterPulse ? 'brightness(1.3)' : 'none'
                 }}
             >
-                {isBoss && target.maxHealth && (
-                    <div className={`absolute -top-10 w-24 h-2 bg-black/50 rounded-full overflow-hidden border ${target.health < target.maxHealth * 0.4 ? 'border-red-500 animate-pulse' : 'border-white/20'}`}>
-                        <div 
-                            className={`h-full transition-all duration-200 ${target.health < target.maxHealth * 0.4 ? 'bg-red-600' : 'bg-red-500'}`} 
-                            style={{ width: `${(target.health / target.maxHealth) * 100}%` }} 
-                        />
-                    </div>
-                )}
-
                 <div 
-                    className={`absolute inset-0 flex items-center justify-center transition-colors duration-200`}
+                    className="rounded-full shadow-2xl relative transition-all duration-200 ease-out"
                     style={{
-                        transform: `rotate(${target.rotation}deg)`,
-                        filter: isBoss ? 'drop-shadow(0 0 20px rgba(255,255,255,0.3))' : 'none'
+                        width: GAME_CONFIG.SHOOTER_RADIUS * 2,
+                        height: GAME_CONFIG.SHOOTER_RADIUS * 2,
+                        backgroundColor: COLORS[color],
+                        boxShadow: `0 0 30px ${COLORS[color]}80`
                     }}
                 >
-                    {target.shape === TargetShape.CIRCLE && (
-                        <div 
-                            className="w-full h-full rounded-full border-[4px]"
-                            style={{
-                                borderColor: COLORS[target.color],
-                                backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
-                                boxShadow: theme === 'dark' 
-                                    ? `0 0 20px ${COLORS[target.color]}60, inset 0 0 10px ${COLORS[target.color]}40`
-                                    : `0 4px 10px ${COLORS[target.color]}40`
-                            }}
-                        />
-                    )}
-                    {target.shape === TargetShape.SQUARE && (
-                        <div 
-                            className="w-full h-full rounded-lg border-[4px]"
-                            style={{
-                                borderColor: COLORS[target.color],
-                                backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
-                                boxShadow: `0 0 15px ${COLORS[target.color]}40`
-                            }}
-                        />
-                    )}
-                    {target.shape === TargetShape.DIAMOND && (
-                        <div 
-                            className="w-[80%] h-[80%] rounded-lg border-[4px] rotate-45"
-                            style={{
-                                borderColor: COLORS[target.color],
-                                backgroundColor: theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)',
-                                boxShadow: `0 0 15px ${COLORS[target.color]}40`
-                            }}
-                        />
-                    )}
-                    {target.shape === TargetShape.TRIANGLE && (
-                         <svg width="100%" height="100%" viewBox="0 0 100 100" className="overflow-visible">
-                             <polygon 
-                                points="50,10 90,85 10,85"
-                                fill={theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)'}
-                                stroke={COLORS[target.color]}
-                                strokeWidth="5"
-                                strokeLinejoin="round"
-                                style={{ filter: `drop-shadow(0 0 8px ${COLORS[target.color]}80)` }}
-                             />
-                         </svg>
-                    )}
-                    {target.shape === TargetShape.STAR && (
-                        <svg width="100%" height="100%" viewBox="0 0 100 100" className="overflow-visible animate-pulse">
-                            <polygon 
-                                points="50,5 61,35 95,35 68,57 79,91 50,70 21,91 32,57 5,35 39,35"
-                                fill={theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.6)'}
-                                stroke={COLORS[target.color]}
-                                strokeWidth="4"
-                                strokeLinejoin="round"
-                                style={{ filter: `drop-shadow(0 0 15px ${COLORS[target.color]})` }}
-                            />
-                        </svg>
-                    )}
-
-                    {target.type === TargetType.SPLIT && (
-                        <div className="absolute inset-0 flex items-center justify-center">
-                            <div className="w-[20%] h-[20%] bg-white rounded-full animate-ping opacity-50" />
-                        </div>
-                    )}
-                    {target.type === TargetType.TOUGH && target.health >= 2 && (
-                         <div className={`absolute w-[60%] h-[60%] border-2 rounded-full opacity-60`} style={{ borderColor: COLORS[target.color] }} />
-                    )}
-                     {target.type === TargetType.BOSS && (
-                         <div className="absolute w-[40%] h-[40%] bg-white/20 rounded-full animate-ping" />
-                    )}
+                    <div className="absolute inset-0 rounded-full border-4 border-white/30 scale-90"></div>
+                    {hasAmmo && <AmmoRing ammo={ammo} reloadProgress={reloadTimer > 0 ? 1 - reloadTimer / AMMO_CONFIG.RELOAD_TIME : null} theme={theme} />}
                 </div>
-
-                {!isStationary && !isBoss && (
-                    <div 
-                        className="absolute w-full h-full flex items-center justify-center"
-                        style={{ transform: `rotate(${velocityAngle}deg)` }}
-                    >
-                        <div className={`absolute -right-3 w-0 h-0 border-t-[5px] border-t-transparent border-b-[5px] border-b-transparent border-l-[8px] ${theme === 'dark' ? 'border-l-white/50' : 'border-l-slate-800/50'}`} />
-                    </div>
-                )}
+                 <div className="w-1 h-4 mt-2 bg-white/20 rounded-full"></div>
             </div>
-        )})}
-
-        {activeParticles.map(p => {
-            const isRing = p.type === 'RING';
-            return (
-            <div 
-                key={p.id}
-                className={`absolute rounded-full ${isRing ? 'border-2' : ''}`}
-                style={{
-                    backgroundColor: isRing ? 'transparent' : p.color,
-                    borderColor: isRing ? p.color : 'transparent',
-                    left: p.x,
-                    top: p.y,
-                    width: p.size,
-                    height: p.size,
-                    opacity: isRing ? p.life : (p.type === 'TRAIL' ? p.life * 0.5 : p.life),
-                    transform: isRing ? 'translate(-50%, -50%)' : `translate(-50%, -50%) scale(${p.life}) rotate(${p.rotation || 0}deg)`,
-                    boxShadow: isRing ? `0 0 10px ${p.color}` : (p.type === 'TRAIL' ? 'none' : `0 0 ${p.size}px ${p.color}`),
-                    borderRadius: p.type === 'DEBRIS' ? '0%' : '50%'
-                }}
-            />
-        )})}
-
-        {projectiles.map(p => (
-            <div 
-                key={p.id}
-                className="absolute rounded-full"
-                style={{
-                    width: p.radius * 2,
-                    height: p.radius * 2,
-                    backgroundColor: COLORS[p.color],
-                    left: p.x - p.radius,
-                    top: p.y - p.radius,
-                    boxShadow: `0 0 15px ${COLORS[p.color]}`
-                }}
-            />
         ))}
-        
-        <div 
-            className={`absolute left-1/2 transform -translate-x-1/2 flex flex-col items-center z-20 transition-all duration-100 ${tutorialStep === 1 ? 'z-[70]' : ''}`}
-            style={{
-                bottom: GAME_CONFIG.CONTROLS_HEIGHT + 20,
-                transform: shooterPulse ? 'translate(-50%, 0) scale(1.1)' : 'translate(-50%, 0) scale(1)',
-                filter: shooterPulse ? 'brightness(1.3)' : 'none'
-            }}
-        >
-            <div 
-                className="rounded-full shadow-2xl relative transition-all duration-200 ease-out"
-                style={{
-                    width: GAME_CONFIG.SHOOTER_RADIUS * 2,
-                    height: GAME_CONFIG.SHOOTER_RADIUS * 2,
-                    backgroundColor: COLORS[selectedColor],
-                    boxShadow: `0 0 30px ${COLORS[selectedColor]}80`
-                }}
-            >
-                <div className="absolute inset-0 rounded-full border-4 border-white/30 scale-90"></div>
-            </div>
-             <div className="w-1 h-4 mt-2 bg-white/20 rounded-full"></div>
-        </div>
       </div>
 
       <div 
@@ -1262,7 +1035,72 @@ export const Game: React.FC<GameProps> = ({ onGameOver, isMuted, difficulty, ini
         style={{ height: GAME_CONFIG.CONTROLS_HEIGHT }}
         onClick={(e) => e.stopPropagation()}
       >
-        {COLOR_KEYS.map((colorKey) => (
+        {isColorQueue ? (
+            <>
+                {/* Hold slot: tap to swap it with the loaded color */}
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        e.preventDefault();
+                        handleSwap();
+                    }}
+                    className={`flex flex-col items-center gap-1 transition-all duration-200 active:scale-90 ${subTextClass}`}
+                >
+                    <div
+                        className={`w-10 h-10 rounded-full flex items-center justify-center ${heldColor ? '' : `border-2 border-dashed ${theme === 'dark' ? 'border-white/30' : 'border-slate-300'}`}`}
+                        style={heldColor ? { backgroundColor: COLORS[heldColor] } : undefined}
+                    >
+                        <Repeat size={18} className={heldColor ? 'text-white' : ''} />
+                    </div>
+                    <span className="text-[10px] font-bold tracking-widest uppercase">Hold</span>
+                </button>
+
+                {/* Loaded color */}
+                <div
+                    className="w-14 h-14 rounded-full ring-4 ring-white shadow-lg flex items-center justify-center transition-colors duration-200"
+                    style={{ backgroundColor: COLORS[selectedColor], boxShadow: `0 0 20px ${COLORS[selectedColor]}` }}
+                >
+                    <div className="w-4 h-4 bg-white rounded-full shadow-sm" />
+                </div>
+
+                <div className={`flex flex-col items-center gap-1 ${subTextClass}`}>
+                    <div className="flex items-center gap-2">
+                        {colorQueue.map((color, i) => (
+                            <div
+                                key={i}
+                                className="rounded-full transition-all duration-200"
+                                style={{ backgroundColor: COLORS[color], width: 32 - i * 6, height: 32 - i * 6, opacity: 1 - i * 0.2 }}
+                            />
+                        ))}
+                    </div>
+                    <span className="text-[10px] font-bold tracking-widest uppercase">Next</span>
+                </div>
+            </>
+        ) : isCoop ? [0, 1].map(player => {
+            // Compact bar per player. Pointer down rather than click so both players can switch at once.
+            const current = player === 1 ? partnerColor : selectedColor;
+            return (
+                <div key={player} className={`flex flex-1 items-center justify-evenly ${player === 1 ? `border-l ${theme === 'dark' ? 'border-white/10' : 'border-slate-200'}` : ''}`}>
+                    {COLOR_KEYS.map(colorKey => (
+                        <button
+                            key={colorKey}
+                            onPointerDown={(e) => {
+                                e.stopPropagation();
+                                e.preventDefault();
+                                handleColorSelect(colorKey, player);
+                            }}
+                            className={`relative w-10 h-10 rounded-full transition-all duration-200 active:scale-90 flex items-center justify-center ${current === colorKey ? 'scale-110 ring-2 ring-white shadow-lg' : 'opacity-70'}`}
+                            style={{
+                                backgroundColor: COLORS[colorKey],
+                                boxShadow: current === colorKey ? `0 0 14px ${COLORS[colorKey]}` : 'none'
+                            }}
+                        >
+                            {current === colorKey && <div className="w-2.5 h-2.5 bg-white rounded-full shadow-sm" />}
+                        </button>
+                    ))}
+                </div>
+            );
+        }) : COLOR_KEYS.map((colorKey) => (
             <button
                 key={colorKey}
                 onClick={(e) => {
@@ -1,50 +1,177 @@
-import React, { useState } from 'react';
-import { Play, RotateCcw, Trophy, Gauge, Lock, ChevronLeft, Grid } from 'lucide-react';
-import { Difficulty, Achievement, GameStats, Theme } from '../types';
+import React, { useState, useRef } from 'react';
+import { Play, RotateCcw, Trophy, Gauge, Lock, ChevronLeft, Grid, CalendarDays, Flame, Film, Download, Upload, MonitorPlay, History, Timer, Heart, Dumbbell, Skull, Minus, Plus, Map, Star, ChevronRight, PenTool, Swords, Users, Layers, Battery } from 'lucide-react';
+import { Difficulty, Achievement, GameStats, Theme, DailyHistory, Replay, RendererType, RunSnapshot, RunConfig, GameMode, TimeAttackBests, TargetType, CampaignProgress, Stage, BossRushRecords } from '../types';
+import { TIME_ATTACK, LIVES_CONFIG, PRACTICE_TARGET_TYPES, PRACTICE_MAX_BOSS_LEVEL, BOSS_RUSH, COLOR_QUEUE, AMMO_CONFIG, PICKUP_STYLES } from '../constants';
 import * as LucideIcons from 'lucide-react';
 import { playSound } from '../utils/sound';
+import { formatSeed } from '../utils/random';
+import { getDailyKey, getDailyStreak, getRecentDays } from '../utils/daily';
+import { encodeReplay, decodeReplay } from '../utils/replay';
+import { getTimeAttackKey } from '../utils/storage';
+import { CAMPAIGN, isStageUnlocked, describeGoal, isCampaignStage } from '../utils/campaign';
+
+// Boss Rush times as m:ss.t
+const formatSplit = (ms: number) => {
+  const tenths = Math.floor(ms / 100);
+  const seconds = Math.floor(tenths / 10);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}.${tenths % 10}`;
+};
 
 interface MenuProps {
   onStart: () => void;
+  onStartDaily: () => void;
+  onStartTimeAttack: (seconds: number) => void;
+  onStartLives: () => void;
+  onStartBossRush: () => void;
+  onStartVersus: () => void;
+  onStartCoop: () => void;
+  onStartColorQueue: () => void;
+  onStartAmmo: () => void;
+  bossRushRecords: BossRushRecords;
+  lastBossSplits?: number[];      // Game over after a Boss Rush run
+  onStartPractice: (config: RunConfig) => void;
+  onStartStage: (stage: Stage) => void;
+  campaignProgress: CampaignProgress;
+  onOpenEditor: () => void;
+  lastStageResult?: { cleared: boolean; stars: number } | null;
+  onNextStage?: () => void;
+  timeAttackBests: TimeAttackBests;
+  savedRun?: RunSnapshot | null;
+  onContinue?: () => void;
   highScore: number;
+  dailyHistory: DailyHistory;
+  isDailyRun?: boolean;
+  lastRunConfig?: RunConfig;
   title: string;
   subtitle: string;
   lastScore?: number;
+  lastSeed?: number;
   isGameOver?: boolean;
   difficulty: Difficulty;
   setDifficulty: (d: Difficulty) => void;
+  renderer: RendererType;
+  setRenderer: (r: RendererType) => void;
   achievements: Achievement[];
   stats: GameStats;
+  replays: Replay[];
+  onWatchReplay: (replay: Replay) => void;
+  onImportReplay: (replay: Replay) => void;
   theme: Theme;
   isMuted: boolean;
 }
 
 export const Menu: React.FC<MenuProps> = ({ 
   onStart, 
+  onStartDaily,
+  onStartTimeAttack,
+  onStartLives,
+  onStartBossRush,
+  onStartVersus,
+  onStartCoop,
+  onStartColorQueue,
+  onStartAmmo,
+  bossRushRecords,
+  lastBossSplits,
+  onStartPractice,
+  onStartStage,
+  campaignProgress,
+  onOpenEditor,
+  lastStageResult = null,
+  onNextStage,
+  timeAttackBests,
+  savedRun = null,
+  onContinue,
   highScore, 
+  dailyHistory,
+  isDailyRun = false,
+  lastRunConfig,
   title, 
   subtitle, 
   lastScore, 
+  lastSeed,
   isGameOver = false,
   difficulty,
   setDifficulty,
+  renderer,
+  setRenderer,
   achievements,
   stats,
+  replays,
+  onWatchReplay,
+  onImportReplay,
   theme,
   isMuted,
 }) => {
-  const [view, setView] = useState<'MAIN' | 'ACHIEVEMENTS'>('MAIN');
+  const [view, setView] = useState<'MAIN' | 'ACHIEVEMENTS' | 'REPLAYS' | 'PRACTICE' | 'CAMPAIGN'>('MAIN');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Practice drill setup
+  const [drillTypes, setDrillTypes] = useState<TargetType[]>(PRACTICE_TARGET_TYPES);
+  const [bossLevel, setBossLevel] = useState<number | null>(null); // null: no bosses
 
-  const handleViewChange = (v: 'MAIN' | 'ACHIEVEMENTS') => {
+  const handleViewChange = (v: 'MAIN' | 'ACHIEVEMENTS' | 'REPLAYS' | 'PRACTICE' | 'CAMPAIGN') => {
       playSound('ui', isMuted);
+      setImportError(null);
       setView(v);
   };
 
+  const handleExportReplay = (replay: Replay) => {
+      playSound('ui', isMuted);
+      const blob = new Blob([encodeReplay(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chroma-shot-replay-${replay.score}-${formatSeed(replay.seed)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportReplay = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow importing the same file again
+      if (!file) return;
+
+      file.text().then(text => {
+          const replay = decodeReplay(text);
+          if (replay) {
+              setImportError(null);
+              playSound('ui', isMuted);
+              onImportReplay(replay);
+          } else {
+              setImportError('That file is not a valid Chroma Shot replay.');
+          }
+      }).catch(() => setImportError('Could not read that file.'));
+  };
+
+  const toggleDrillType = (type: TargetType) => {
+      playSound('ui', isMuted);
+      setDrillTypes(current => current.includes(type) ? current.filter(t => t !== type) : [...current, type]);
+  };
+
+  const changeBossLevel = (level: number | null) => {
+      playSound('ui', isMuted);
+      setBossLevel(level === null ? null : Math.max(1, Math.min(PRACTICE_MAX_BOSS_LEVEL, level)));
+  };
+
+  const handleStartPractice = () => {
+      onStartPractice({
+          mode: GameMode.PRACTICE,
+          targetTypes: drillTypes,
+          bossLevel: bossLevel ?? undefined
+      });
+  };
+
   const handleDifficultyChange = (d: Difficulty) => {
       playSound('ui', isMuted);
       setDifficulty(d);
   };
 
+  const handleRendererChange = (r: RendererType) => {
+      playSound('ui', isMuted);
+      setRenderer(r);
+  };
+
   // Dynamically render icons
   const renderIcon = (name: string, className?: string) => {
     const Icon = (LucideIcons as any)[name];
@@ -57,6 +184,220 @@ export const Menu: React.FC<MenuProps> = ({
   const cardBg = theme === 'dark' ? 'bg-slate-800' : 'bg-white shadow-sm border border-slate-200';
   const iconBg = theme === 'dark' ? 'bg-slate-800 text-slate-600' : 'bg-slate-100 text-slate-400';
 
+  const today = getDailyKey();
+  const todayResult = dailyHistory[today];
+  const dailyStreak = getDailyStreak(dailyHistory, today);
+  // Oldest to newest for the history strip
+  const recentDays = getRecentDays(7, today).reverse();
+
+  const getTimeAttackBest = (seconds: number) => timeAttackBests[getTimeAttackKey(seconds, difficulty)] ?? 0;
+  const lastTimeLimit = lastRunConfig?.mode === GameMode.TIME_ATTACK ? lastRunConfig.timeLimit : undefined;
+  const isLivesRun = lastRunConfig?.mode === GameMode.LIVES;
+  const isAmmoRun = lastRunConfig?.mode === GameMode.AMMO;
+  const ammoEfficiency = stats.ammoShotsFired > 0 ? Math.round((stats.ammoShotsLanded / stats.ammoShotsFired) * 100) : 0;
+  const describeRun = (config: RunConfig) => {
+      if (config.mode === GameMode.TIME_ATTACK) return `Time Attack ${config.timeLimit}s`;
+      if (config.mode === GameMode.LIVES) return 'Lives';
+      if (config.mode === GameMode.BOSS_RUSH) return 'Boss Rush';
+      if (config.mode === GameMode.COOP) return 'Co-op';
+      if (config.mode === GameMode.QUEUE) return 'Color Queue';
+      if (config.mode === GameMode.AMMO) return 'Ammo';
+      if (config.mode === GameMode.CAMPAIGN && config.stage) return `${isCampaignStage(config.stage) ? 'Campaign' : 'Custom'} · ${config.stage.name}`;
+      return null;
+  };
+  const lastStage = lastRunConfig?.mode === GameMode.CAMPAIGN ? lastRunConfig.stage : undefined;
+  const isEditorRun = !!lastStage && !isCampaignStage(lastStage);
+  const fastestBossRush = bossRushRecords[difficulty]?.fastestClear ?? null;
+  const mostBosses = bossRushRecords[difficulty]?.mostBosses ?? 0;
+  const clearedStages = CAMPAIGN.filter(stage => campaignProgress[stage.id]?.cleared).length;
+  const totalStars = CAMPAIGN.reduce((sum, stage) => sum + (campaignProgress[stage.id]?.stars ?? 0), 0);
+
+  const renderStars = (count: number, size: number) => (
+      <div className="flex gap-0.5">
+          {[1, 2, 3].map(n => (
+              <Star key={n} size={size} className={n <= count ? 'text-yellow-400 fill-yellow-400' : theme === 'dark' ? 'text-slate-600' : 'text-slate-300'} />
+          ))}
+      </div>
+  );
+
+  if (view === 'REPLAYS') {
+      return (
+        <div className={`absolute inset-0 flex flex-col items-center justify-center z-40 overflow-hidden ${overlayBg}`}>
+            <div className="relative w-full max-w-lg h-full flex flex-col p-6 z-10">
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={() => handleViewChange('MAIN')} className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white hover:bg-slate-100 border border-slate-200'}`}>
+                        <ChevronLeft className={theme === 'dark' ? 'text-white' : 'text-slate-800'} />
+                    </button>
+                    <h2 className={`text-2xl font-bold flex items-center gap-2 ${textColor}`}>
+                        <Film className="text-indigo-500" /> Replays
+                    </h2>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-white hover:bg-slate-100 border border-slate-200 text-slate-600'}`}
+                        title="Import replay"
+                    >
+                        <Upload size={20} />
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportReplay} />
+                </div>
+
+                {importError && (
+                    <div className="mb-4 px-4 py-2 rounded-lg bg-red-500/10 text-red-500 text-sm">{importError}</div>
+                )}
+
+                <div className="flex-1 overflow-y-auto space-y-3 pr-2">
+                    {replays.length === 0 && (
+                        <p className={`text-center mt-12 ${subTextColor}`}>Your last few runs will show up here.</p>
+                    )}
+                    {replays.map((replay, index) => (
+                        <div key={`${replay.recordedAt}-${index}`} className={`${cardBg} p-4 rounded-xl flex items-center gap-4`}>
+                            <div className="flex-1 min-w-0">
+                                <div className={`font-bold text-lg ${textColor}`}>{replay.score}</div>
+                                <div className={`text-xs ${subTextColor}`}>
+                                    {new Date(replay.recordedAt).toLocaleString()} · {replay.difficulty}{describeRun(replay.config) ? ` · ${describeRun(replay.config)}` : ''}
+                                </div>
+                                <div className={`text-[10px] font-mono ${subTextColor}`}>Seed #{formatSeed(replay.seed)}</div>
+                            </div>
+                            <button
+                                onClick={() => handleExportReplay(replay)}
+                                className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-700 hover:bg-slate-600 text-slate-300' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+                                title="Export"
+                            >
+                                <Download size={18} />
+                            </button>
+                            <button
+                                onClick={() => onWatchReplay(replay)}
+                                className="p-2 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+                                title="Watch"
+                            >
+                                <Play size={18} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+      );
+  }
+
+  if (view === 'PRACTICE') {
+      // A drill needs something to shoot at: at least one type, or a boss
+      const canStart = drillTypes.length > 0 || bossLevel !== null;
+
+      return (
+        <div className={`absolute inset-0 flex flex-col items-center justify-center z-40 overflow-hidden ${overlayBg}`}>
+            <div className="relative w-full max-w-lg h-full flex flex-col p-6 z-10">
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={() => handleViewChange('MAIN')} className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white hover:bg-slate-100 border border-slate-200'}`}>
+                        <ChevronLeft className={theme === 'dark' ? 'text-white' : 'text-slate-800'} />
+                    </button>
+                    <h2 className={`text-2xl font-bold flex items-center gap-2 ${textColor}`}>
+                        <Dumbbell className="text-teal-500" /> Practice
+                    </h2>
+                    <div className="w-10" />
+                </div>
+
+                <p className={`text-sm mb-4 ${subTextColor}`}>
+                    Wrong colors never end a practice run, and nothing here counts towards stats or achievements.
+                </p>
+
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Targets</div>
+                <div className="grid grid-cols-2 gap-2 mb-6">
+                    {PRACTICE_TARGET_TYPES.map(type => {
+                        const isSelected = drillTypes.includes(type);
+                        return (
+                            <button
+                                key={type}
+                                onClick={() => toggleDrillType(type)}
+                                className={`px-3 py-3 rounded-xl text-sm font-bold capitalize transition-all duration-200 border ${isSelected
+                                    ? 'bg-teal-500/20 border-teal-500/50 text-teal-500'
+                                    : theme === 'dark' ? 'bg-slate-800 border-slate-700 text-slate-500' : 'bg-white border-slate-200 text-slate-400'}`}
+                            >
+                                {type.replace('_', ' ').toLowerCase()}
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Boss</div>
+                <div className={`${cardBg} p-3 rounded-xl flex items-center justify-between mb-6`}>
+                    <button
+                        onClick={() => changeBossLevel(bossLevel === null ? 1 : null)}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold transition-colors ${bossLevel !== null ? 'bg-red-500/20 text-red-500' : subTextColor}`}
+                    >
+                        <Skull size={16} /> {bossLevel !== null ? 'Boss drill' : 'No bosses'}
+                    </button>
+                    {bossLevel !== null && (
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => changeBossLevel(bossLevel - 1)} className={`p-1 rounded-md ${theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-200 text-slate-700'}`}>
+                                <Minus size={16} />
+                            </button>
+                            <span className={`w-16 text-center text-sm font-bold ${textColor}`}>Level {bossLevel}</span>
+                            <button onClick={() => changeBossLevel(bossLevel + 1)} className={`p-1 rounded-md ${theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-200 text-slate-700'}`}>
+                                <Plus size={16} />
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <button
+                    onClick={handleStartPractice}
+                    disabled={!canStart}
+                    className="inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-teal-600 rounded-full hover:bg-teal-500 hover:scale-105 active:scale-95 shadow-lg shadow-teal-500/30 w-full disabled:opacity-40 disabled:hover:scale-100"
+                >
+                    <Play className="mr-2" /> Start Practice
+                </button>
+            </div>
+        </div>
+      );
+  }
+
+  if (view === 'CAMPAIGN') {
+      return (
+        <div className={`absolute inset-0 flex flex-col items-center justify-center z-40 overflow-hidden ${overlayBg}`}>
+            <div className="relative w-full max-w-lg h-full flex flex-col p-6 z-10">
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={() => handleViewChange('MAIN')} className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white hover:bg-slate-100 border border-slate-200'}`}>
+                        <ChevronLeft className={theme === 'dark' ? 'text-white' : 'text-slate-800'} />
+                    </button>
+                    <h2 className={`text-2xl font-bold flex items-center gap-2 ${textColor}`}>
+                        <Map className="text-violet-500" /> Campaign
+                    </h2>
+                    <div className={`text-sm font-mono flex items-center gap-1 ${subTextColor}`}>
+                        <Star size={14} className="text-yellow-400 fill-yellow-400" /> {totalStars}/{CAMPAIGN.length * 3}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-3 pr-2">
+                    {CAMPAIGN.map((stage, index) => {
+                        const progress = campaignProgress[stage.id];
+                        const isUnlocked = isStageUnlocked(index, campaignProgress);
+                        return (
+                            <button
+                                key={stage.id}
+                                onClick={() => onStartStage(stage)}
+                                disabled={!isUnlocked}
+                                className={`${cardBg} w-full p-4 rounded-xl flex items-center gap-4 text-left transition-all duration-200 enabled:hover:scale-[1.02] enabled:active:scale-95 disabled:opacity-50`}
+                            >
+                                <div className={`w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 font-bold ${isUnlocked ? 'bg-violet-500/20 text-violet-500' : iconBg}`}>
+                                    {isUnlocked ? index + 1 : <Lock size={18} />}
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <div className={`font-bold truncate ${textColor}`}>{stage.name}</div>
+                                    <div className={`text-xs ${subTextColor}`}>
+                                        {describeGoal(stage.goal)}{progress ? ` · Best ${progress.bestScore}` : ''}
+                                    </div>
+                                </div>
+                                {renderStars(progress?.stars ?? 0, 16)}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+      );
+  }
+
   if (view === 'ACHIEVEMENTS') {
       const unlockedCount = achievements.filter(a => a.isUnlocked).length;
       const totalCount = achievements.length;
@@ -106,6 +447,19 @@ export const Menu: React.FC<MenuProps> = ({
                     </div>
                 </div>
 
+                {/* Power-ups collected */}
+                <div className={`${cardBg} -mt-2 mb-4 px-3 py-2 rounded-lg flex items-center justify-between text-xs font-bold`}>
+                    <span className={subTextColor}>Power-ups</span>
+                    {([
+                        ['SLOW_MO', stats.slowMoPickups],
+                        ['MULTISHOT', stats.multishotPickups],
+                        ['RAINBOW', stats.rainbowPickups],
+                        ['SHIELD', stats.shieldPickups]
+                    ] as const).map(([kind, count]) => (
+                        <span key={kind} style={{ color: PICKUP_STYLES[kind].color }}>{PICKUP_STYLES[kind].label} {count}</span>
+                    ))}
+                </div>
+
                 <div className="flex-1 overflow-y-auto space-y-3 pr-2 scrollbar-thin scrollbar-thumb-slate-700">
                     {achievements.map(ach => (
                         <div 
@@ -161,9 +515,10 @@ export const Menu: React.FC<MenuProps> = ({
       );
   }
 
+  // Scrolls once the mode list outgrows short screens; my-auto keeps it centred when it fits
   return (
-    <div className={`absolute inset-0 flex flex-col items-center justify-center z-40 backdrop-blur-sm animate-in fade-in duration-300 ${theme === 'dark' ? 'bg-slate-900/90' : 'bg-white/90'}`}>
-      <div className="p-8 text-center max-w-md w-full">
+    <div className={`absolute inset-0 flex flex-col items-center overflow-y-auto z-40 backdrop-blur-sm animate-in fade-in duration-300 ${theme === 'dark' ? 'bg-slate-900/90' : 'bg-white/90'}`}>
+      <div className="p-8 my-auto text-center max-w-md w-full">
         <h1 className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-red-400 via-yellow-400 to-blue-400 mb-2 drop-shadow-lg tracking-tight">
           {title}
         </h1>
@@ -175,6 +530,30 @@ export const Menu: React.FC<MenuProps> = ({
             <div className="text-sm text-slate-500 uppercase tracking-widest">Score</div>
           </div>
         )}
+
+        {isGameOver && lastStageResult && (
+          <div className="-mt-4 mb-6 flex justify-center">
+            {renderStars(lastStageResult.stars, 28)}
+          </div>
+        )}
+
+        {isGameOver && lastBossSplits && lastBossSplits.length > 0 && (
+          <div className={`${cardBg} -mt-4 mb-6 p-3 rounded-xl text-sm tabular-nums space-y-1`}>
+            {lastBossSplits.map((time, index) => (
+              <div key={index} className="flex justify-between gap-4">
+                <span className={`font-bold ${textColor}`}>Boss {index + 1}</span>
+                <span className={subTextColor}>+{formatSplit(time - (lastBossSplits[index - 1] ?? 0))}</span>
+                <span className={`font-mono ${textColor}`}>{formatSplit(time)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isGameOver && lastSeed !== undefined && (
+          <div className={`-mt-4 mb-6 text-xs font-mono select-text ${subTextColor}`}>
+            Seed #{formatSeed(lastSeed)}
+          </div>
+        )}
         
         <div className="mb-6 space-y-2">
           <div className="text-slate-400 text-xs uppercase tracking-widest mb-2 flex items-center justify-center gap-2">
@@ -204,8 +583,39 @@ export const Menu: React.FC<MenuProps> = ({
               );
             })}
           </div>
+          {/* Renderer: canvas by default, DOM kept as a fallback for devices where it runs better */}
+          <div className="flex items-center justify-center gap-2 pt-1">
+            <MonitorPlay size={12} className="text-slate-400" />
+            {(['canvas', 'dom'] as RendererType[]).map((r) => (
+              <button
+                key={r}
+                onClick={() => handleRendererChange(r)}
+                className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${renderer === r ? (theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-200 text-slate-700') : 'text-slate-400 hover:text-slate-500'}`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
         </div>
 
+        {savedRun && onContinue && (
+          <button
+            onClick={onContinue}
+            className={`w-full mb-3 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-emerald-500/10 border-emerald-500/30 hover:bg-emerald-500/20' : 'bg-emerald-50 border-emerald-200 hover:bg-emerald-100'}`}
+          >
+            <div className="flex items-center gap-3 text-left">
+              <History className="text-emerald-500" />
+              <div>
+                <div className={`font-bold ${textColor}`}>Continue Run</div>
+                <div className={`text-xs ${subTextColor}`}>
+                  {savedRun.dailyKey ? 'Daily · ' : ''}{describeRun(savedRun.engine.config) ? `${describeRun(savedRun.engine.config)} · ` : ''}{savedRun.engine.difficulty} · Level {savedRun.engine.level}
+                </div>
+              </div>
+            </div>
+            <div className={`text-xl font-bold ${textColor}`}>{Math.floor(savedRun.engine.score)}</div>
+          </button>
+        )}
+
         <button
           onClick={onStart}
           className="group relative inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-indigo-600 font-lg rounded-full hover:bg-indigo-500 hover:scale-105 active:scale-95 shadow-lg shadow-indigo-500/30 w-full mb-4"
@@ -214,11 +624,232 @@ export const Menu: React.FC<MenuProps> = ({
           {isGameOver ? 'Try Again' : 'Start Game'}
         </button>
 
+        {isGameOver && onNextStage && (
+          <button
+            onClick={onNextStage}
+            className="inline-flex items-center justify-center px-8 py-3 font-bold text-white transition-all duration-200 bg-violet-600 rounded-full hover:bg-violet-500 hover:scale-105 active:scale-95 shadow-lg shadow-violet-500/30 w-full mb-4"
+          >
+            Next Stage <ChevronRight className="ml-2" />
+          </button>
+        )}
+
+        {isGameOver && isEditorRun && (
+          <button
+            onClick={onOpenEditor}
+            className="inline-flex items-center justify-center px-8 py-3 font-bold text-white transition-all duration-200 bg-violet-600 rounded-full hover:bg-violet-500 hover:scale-105 active:scale-95 shadow-lg shadow-violet-500/30 w-full mb-4"
+          >
+            <PenTool className="mr-2" /> Back to Editor
+          </button>
+        )}
+
+        {!isDailyRun && (
+          <button
+            onClick={onStartDaily}
+            className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-orange-500/10 border-orange-500/30 hover:bg-orange-500/20' : 'bg-orange-50 border-orange-200 hover:bg-orange-100'}`}
+          >
+            <div className="flex items-center gap-3 text-left">
+              <CalendarDays className="text-orange-500" />
+              <div>
+                <div className={`font-bold ${textColor}`}>Daily Challenge</div>
+                <div className={`text-xs ${subTextColor}`}>
+                  {todayResult ? `Best today: ${todayResult.bestScore}` : 'Same waves for everyone today'}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-1 text-orange-500 font-bold" title="Days in a row">
+              <Flame size={16} /> {dailyStreak}
+            </div>
+          </button>
+        )}
+
+        {/* Campaign: authored stages with star ratings, opens the level select */}
+        <button
+          onClick={() => handleViewChange('CAMPAIGN')}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-violet-500/10 border-violet-500/30 hover:bg-violet-500/20' : 'bg-violet-50 border-violet-200 hover:bg-violet-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Map className="text-violet-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Campaign</div>
+              <div className={`text-xs ${subTextColor}`}>
+                {clearedStages}/{CAMPAIGN.length} stages cleared
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 text-yellow-500 font-bold">
+            <Star size={16} className="fill-yellow-400 text-yellow-400" /> {totalStars}
+          </div>
+        </button>
+
+        {/* Time Attack: score as much as possible before the clock runs out */}
+        <div className={`w-full mb-2 flex items-center justify-between gap-3 px-5 py-3 rounded-2xl border ${theme === 'dark' ? 'bg-sky-500/10 border-sky-500/30' : 'bg-sky-50 border-sky-200'}`}>
+          <div className="flex items-center gap-3 text-left">
+            <Timer className="text-sky-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Time Attack</div>
+              <div className={`text-xs ${subTextColor}`}>Misses cost time</div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {TIME_ATTACK.DURATIONS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => onStartTimeAttack(seconds)}
+                className={`flex flex-col items-center px-3 py-1 rounded-xl font-bold transition-all duration-200 hover:scale-105 active:scale-95 ${theme === 'dark' ? 'bg-sky-500/20 hover:bg-sky-500/30 text-sky-300' : 'bg-sky-100 hover:bg-sky-200 text-sky-700'}`}
+              >
+                <span className="text-sm">{seconds}s</span>
+                <span className="text-[10px] font-semibold opacity-70">Best {getTimeAttackBest(seconds)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Lives: a wrong color costs a heart instead of the run */}
+        <button
+          onClick={onStartLives}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-rose-500/10 border-rose-500/30 hover:bg-rose-500/20' : 'bg-rose-50 border-rose-200 hover:bg-rose-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Heart className="text-rose-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Lives</div>
+              <div className={`text-xs ${subTextColor}`}>
+                {LIVES_CONFIG.START} hearts · Bosses give one back
+              </div>
+            </div>
+          </div>
+          <div className={`text-sm font-bold ${subTextColor}`}>Best {stats.livesHighScore}</div>
+        </button>
+
+        {/* Ammo: a magazine instead of unlimited shots */}
+        <button
+          onClick={onStartAmmo}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-amber-500/10 border-amber-500/30 hover:bg-amber-500/20' : 'bg-amber-50 border-amber-200 hover:bg-amber-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Battery className="text-amber-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Ammo</div>
+              <div className={`text-xs ${subTextColor}`}>
+                {AMMO_CONFIG.MAGAZINE} rounds · Kills refill · Misses cost extra
+              </div>
+            </div>
+          </div>
+          {stats.ammoGames > 0 && <div className={`text-sm font-bold ${subTextColor}`}>{ammoEfficiency}% eff.</div>}
+        </button>
+
+        {/* Boss Rush: every boss back to back, against the clock */}
+        <button
+          onClick={onStartBossRush}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-red-500/10 border-red-500/30 hover:bg-red-500/20' : 'bg-red-50 border-red-200 hover:bg-red-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Skull className="text-red-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Boss Rush</div>
+              <div className={`text-xs ${subTextColor}`}>
+                {BOSS_RUSH.BOSSES} bosses back to back
+              </div>
+            </div>
+          </div>
+          <div className={`text-sm font-bold tabular-nums ${subTextColor}`}>
+            {fastestBossRush !== null ? formatSplit(fastestBossRush) : `Best ${mostBosses}/${BOSS_RUSH.BOSSES}`}
+          </div>
+        </button>
+
+        {/* Color Queue: no free color picks */}
+        <button
+          onClick={onStartColorQueue}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-fuchsia-500/10 border-fuchsia-500/30 hover:bg-fuchsia-500/20' : 'bg-fuchsia-50 border-fuchsia-200 hover:bg-fuchsia-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Layers className="text-fuchsia-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Color Queue</div>
+              <div className={`text-xs ${subTextColor}`}>
+                Shoot what's loaded · One hold slot · Misses cost {COLOR_QUEUE.MISS_PENALTY}
+              </div>
+            </div>
+          </div>
+        </button>
+
+        {/* Versus: two players, one screen */}
+        <button
+          onClick={onStartVersus}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-cyan-500/10 border-cyan-500/30 hover:bg-cyan-500/20' : 'bg-cyan-50 border-cyan-200 hover:bg-cyan-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Swords className="text-cyan-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Versus</div>
+              <div className={`text-xs ${subTextColor}`}>
+                Two players · First wrong color loses
+              </div>
+            </div>
+          </div>
+        </button>
+
+        {/* Co-op: two shooters, one arena */}
+        <button
+          onClick={onStartCoop}
+          className={`w-full mb-2 flex items-center justify-between px-5 py-3 rounded-2xl border transition-all duration-200 hover:scale-[1.02] active:scale-95 ${theme === 'dark' ? 'bg-emerald-500/10 border-emerald-500/30 hover:bg-emerald-500/20' : 'bg-emerald-50 border-emerald-200 hover:bg-emerald-100'}`}
+        >
+          <div className="flex items-center gap-3 text-left">
+            <Users className="text-emerald-500" />
+            <div>
+              <div className={`font-bold ${textColor}`}>Co-op</div>
+              <div className={`text-xs ${subTextColor}`}>
+                Two shooters, one arena · Shared score
+              </div>
+            </div>
+          </div>
+        </button>
+
+        {/* Daily history strip: last 7 days */}
+        <div className="flex justify-between gap-1 mb-4 px-1">
+          {recentDays.map(day => {
+            const result = dailyHistory[day];
+            return (
+              <div
+                key={day}
+                title={result ? `${day}: ${result.bestScore} (${result.attempts} tries)` : day}
+                className={`flex-1 h-1.5 rounded-full ${result ? 'bg-orange-500' : theme === 'dark' ? 'bg-slate-800' : 'bg-slate-200'} ${day === today ? 'ring-1 ring-orange-400/60' : ''}`}
+              />
+            );
+          })}
+        </div>
+
         <div className="flex gap-2 justify-center">
             <div className={`flex-1 flex items-center justify-center space-x-2 py-3 px-6 rounded-xl ${theme === 'dark' ? 'bg-slate-800/50 text-slate-500' : 'bg-slate-100 text-slate-600'}`}>
                 <Trophy size={18} className="text-yellow-500" />
-                <span className="font-semibold">Best: {highScore}</span>
+                <span className="font-semibold">
+                  {isDailyRun
+                    ? `Daily best: ${todayResult?.bestScore ?? 0}`
+                    : lastTimeLimit ? `${lastTimeLimit}s best: ${getTimeAttackBest(lastTimeLimit)}`
+                    : isLivesRun ? `Lives best: ${stats.livesHighScore}`
+                    : isAmmoRun ? `Ammo efficiency: ${ammoEfficiency}% · ${stats.reloads} reloads`
+                    : lastBossSplits ? (fastestBossRush !== null ? `Fastest clear: ${formatSplit(fastestBossRush)}` : `Most bosses: ${mostBosses}`)
+                    : lastStage && !isEditorRun ? `Stage best: ${campaignProgress[lastStage.id]?.bestScore ?? 0}` : `Best: ${highScore}`}
+                </span>
             </div>
+            <button 
+                onClick={() => handleViewChange('PRACTICE')}
+                className={`flex items-center justify-center py-3 px-4 rounded-xl transition-colors ${theme === 'dark' ? 'bg-slate-800/50 hover:bg-slate-700 text-slate-400' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+            >
+                <Dumbbell size={18} />
+            </button>
+            <button 
+                onClick={onOpenEditor}
+                className={`flex items-center justify-center py-3 px-4 rounded-xl transition-colors ${theme === 'dark' ? 'bg-slate-800/50 hover:bg-slate-700 text-slate-400' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+            >
+                <PenTool size={18} />
+            </button>
+            <button 
+                onClick={() => handleViewChange('REPLAYS')}
+                className={`flex items-center justify-center py-3 px-4 rounded-xl transition-colors ${theme === 'dark' ? 'bg-slate-800/50 hover:bg-slate-700 text-slate-400' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+            >
+                <Film size={18} />
+            </button>
             <button 
                 onClick={() => handleViewChange('ACHIEVEMENTS')}
                 className={`flex items-center justify-center py-3 px-4 rounded-xl transition-colors ${theme === 'dark' ? 'bg-slate-800/50 hover:bg-slate-700 text-slate-400' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Play, RotateCcw, LogOut, Volume2, VolumeX, Sun, Moon, MonitorPlay, Pause } from 'lucide-react';
+import { Theme, RendererType } from '../types';
+import { playSound } from '../utils/sound';
+
+interface PauseMenuProps {
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+  isMuted: boolean;
+  onToggleMute: () => void;
+  theme: Theme;
+  onToggleTheme: () => void;
+  renderer: RendererType;
+  setRenderer: (r: RendererType) => void;
+}
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({
+  onResume,
+  onRestart,
+  onQuit,
+  isMuted,
+  onToggleMute,
+  theme,
+  onToggleTheme,
+  renderer,
+  setRenderer
+}) => {
+  // Quitting throws the run away, so it asks first
+  const [confirmQuit, setConfirmQuit] = useState(false);
+
+  const textColor = theme === 'dark' ? 'text-white' : 'text-slate-900';
+  const subTextColor = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const cardBg = theme === 'dark' ? 'bg-slate-800' : 'bg-white shadow-sm border border-slate-200';
+  const secondaryButton = theme === 'dark' ? 'bg-white/10 hover:bg-white/20 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-700';
+
+  const handleQuitRequest = () => {
+      playSound('ui', isMuted);
+      setConfirmQuit(true);
+  };
+
+  const handleQuitCancel = () => {
+      playSound('ui', isMuted);
+      setConfirmQuit(false);
+  };
+
+  const handleRendererChange = (r: RendererType) => {
+      playSound('ui', isMuted);
+      setRenderer(r);
+  };
+
+  return (
+    <div
+      className={`absolute inset-0 flex flex-col items-center justify-center z-[80] backdrop-blur-sm animate-in fade-in duration-200 ${theme === 'dark' ? 'bg-slate-900/80' : 'bg-white/80'}`}
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="p-8 text-center max-w-xs w-full">
+        <div className={`flex items-center justify-center gap-2 text-4xl font-black mb-8 tracking-tight ${textColor}`}>
+          <Pause size={32} /> Paused
+        </div>
+
+        {confirmQuit ? (
+          <div className={`${cardBg} p-5 rounded-2xl animate-in fade-in zoom-in duration-200`}>
+            <div className={`font-bold mb-1 ${textColor}`}>Quit this run?</div>
+            <p className={`text-sm mb-5 ${subTextColor}`}>Your score won't be saved.</p>
+            <div className="flex gap-2">
+              <button onClick={handleQuitCancel} className={`flex-1 py-3 rounded-xl font-bold transition-colors ${secondaryButton}`}>
+                Cancel
+              </button>
+              <button onClick={onQuit} className="flex-1 py-3 rounded-xl font-bold text-white bg-red-500 hover:bg-red-400 transition-colors">
+                Quit
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <button
+              onClick={onResume}
+              className="inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-indigo-600 rounded-full hover:bg-indigo-500 hover:scale-105 active:scale-95 shadow-lg shadow-indigo-500/30 w-full mb-3"
+            >
+              <Play className="mr-2" /> Resume
+            </button>
+            <button
+              onClick={onRestart}
+              className={`inline-flex items-center justify-center px-8 py-3 font-bold rounded-full transition-colors w-full mb-3 ${secondaryButton}`}
+            >
+              <RotateCcw size={18} className="mr-2" /> Restart
+            </button>
+            <button
+              onClick={handleQuitRequest}
+              className={`inline-flex items-center justify-center px-8 py-3 font-bold rounded-full transition-colors w-full mb-8 ${secondaryButton}`}
+            >
+              <LogOut size={18} className="mr-2" /> Quit to Menu
+            </button>
+
+            {/* Settings */}
+            <div className={`${cardBg} p-2 rounded-2xl flex items-center justify-around`}>
+              <button onClick={onToggleMute} className={`p-3 rounded-xl transition-colors ${secondaryButton}`}>
+                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+              </button>
+              <button onClick={onToggleTheme} className={`p-3 rounded-xl transition-colors ${secondaryButton}`}>
+                {theme === 'dark' ? <Moon size={20} /> : <Sun size={20} />}
+              </button>
+              <div className="flex items-center gap-1">
+                <MonitorPlay size={14} className={subTextColor} />
+                {(['canvas', 'dom'] as RendererType[]).map((r) => (
+                  <button
+                    key={r}
+                    onClick={() => handleRendererChange(r)}
+                    className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${renderer === r ? (theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-200 text-slate-700') : 'text-slate-400 hover:text-slate-500'}`}
+                  >
+                    {r}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,412 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { ColorType, Difficulty, EngineInput, EngineState, GameMode, RunConfig, Theme } from '../types';
+import { COLORS, COLOR_KEYS, GAME_CONFIG } from '../constants';
+import { playSound } from '../utils/sound';
+import { createEngineState, advanceGame, receiveGarbage, getInterpolationAlpha, interpolateTargets, interpolateProjectiles } from '../utils/engine';
+import { createSeed } from '../utils/random';
+import { drawScene } from '../utils/canvasRenderer';
+import { RotateCcw, X, Trophy, Zap, AlertTriangle, Pause, Play } from 'lucide-react';
+
+// Local head-to-head: each player gets a half of the screen running its own engine.
+// Landscape puts the halves side by side; portrait stacks them with the top one turned
+// around, for a phone lying flat between two players.
+
+const VERSUS_CONFIG: RunConfig = { mode: GameMode.VERSUS };
+const GARBAGE_WARNING = 800; // ms the incoming garbage warning stays up
+const PLAYER_COLORS = ['text-sky-400', 'text-pink-400'];
+
+interface Side {
+  engine: EngineState;
+  inputs: EngineInput[]; // Queued since the last frame
+}
+
+// winner is null when both players mismatched on the same frame
+interface Outcome {
+  winner: number | null;
+}
+
+// Both halves start from one seed, so neither player gets an easier spawn sequence
+const createSides = (difficulty: Difficulty): Side[] => {
+  const seed = createSeed();
+  return [0, 1].map(() => ({ engine: createEngineState(difficulty, seed, VERSUS_CONFIG), inputs: [] }));
+};
+
+interface VersusSideProps {
+  player: number;
+  flipped: boolean;
+  theme: Theme;
+  score: number;
+  streak: number;
+  selectedColor: ColorType;
+  isUnderAttack: boolean;
+  outcome: Outcome | null;
+  canvasRef: (canvas: HTMLCanvasElement | null) => void;
+  onResize: (width: number, height: number) => void;
+  onShoot: (x: number, y: number) => void;
+  onSelectColor: (color: ColorType) => void;
+  onRematch: () => void;
+  onExit: () => void;
+}
+
+const VersusSide: React.FC<VersusSideProps> = ({
+  player,
+  flipped,
+  theme,
+  score,
+  streak,
+  selectedColor,
+  isUnderAttack,
+  outcome,
+  canvasRef,
+  onResize,
+  onShoot,
+  onSelectColor,
+  onRematch,
+  onExit
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const updateDimensions = () => onResize(container.clientWidth, container.clientHeight);
+    updateDimensions();
+    const resizeObserver = new ResizeObserver(updateDimensions);
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, [onResize]);
+
+  // Pointer events keep both players' touches apart. The turned-around half maps taps back to its own coordinates.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = flipped ? rect.right - e.clientX : e.clientX - rect.left;
+    const y = flipped ? rect.bottom - e.clientY : e.clientY - rect.top;
+    if (y > rect.height - GAME_CONFIG.CONTROLS_HEIGHT) return;
+    onShoot(x, y);
+  };
+
+  const controlBarClass = theme === 'dark' ? 'bg-slate-900/80 border-white/10' : 'bg-white/80 border-slate-200 shadow-lg';
+  const textColor = theme === 'dark' ? 'text-white/90' : 'text-slate-800';
+  const hasWon = outcome !== null && outcome.winner === player;
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      className={`relative flex-1 overflow-hidden touch-action-none cursor-crosshair ${flipped ? 'rotate-180' : ''}`}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
+      <div className="absolute top-3 left-4 z-20 pointer-events-none">
+        <div className={`text-xs font-black tracking-widest uppercase ${PLAYER_COLORS[player]}`}>Player {player + 1}</div>
+        <div className={`text-4xl font-black tracking-tighter ${textColor}`}>{score}</div>
+        {streak > 2 && (
+          <div className="flex items-center gap-1 text-orange-500 font-bold text-xs tracking-widest animate-pulse">
+            <Zap size={12} /> STREAK {streak}
+          </div>
+        )}
+      </div>
+
+      {isUnderAttack && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 px-2 py-1 rounded-md bg-red-500/20 border border-red-500/40 text-red-400 text-xs font-black tracking-wider uppercase animate-pulse pointer-events-none">
+          <AlertTriangle size={12} /> Incoming
+        </div>
+      )}
+
+      <div
+        className="absolute left-1/2 -translate-x-1/2 rounded-full z-20 pointer-events-none transition-colors duration-200"
+        style={{
+          bottom: GAME_CONFIG.CONTROLS_HEIGHT + 20 - GAME_CONFIG.SHOOTER_RADIUS,
+          width: GAME_CONFIG.SHOOTER_RADIUS * 2,
+          height: GAME_CONFIG.SHOOTER_RADIUS * 2,
+          backgroundColor: COLORS[selectedColor],
+          boxShadow: `0 0 30px ${COLORS[selectedColor]}80`
+        }}
+      />
+
+      <div
+        className={`absolute bottom-0 left-0 w-full backdrop-blur-md border-t z-30 flex items-center justify-evenly px-4 ${controlBarClass}`}
+        style={{ height: GAME_CONFIG.CONTROLS_HEIGHT }}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        {COLOR_KEYS.map((colorKey) => (
+          <button
+            key={colorKey}
+            onPointerDown={() => onSelectColor(colorKey)}
+            className={`w-12 h-12 rounded-full transition-all duration-200 active:scale-90 flex items-center justify-center ${selectedColor === colorKey ? 'scale-110 ring-4 ring-white shadow-lg' : 'opacity-80'}`}
+            style={{
+              backgroundColor: COLORS[colorKey],
+              boxShadow: selectedColor === colorKey ? `0 0 20px ${COLORS[colorKey]}` : 'none'
+            }}
+          >
+            {selectedColor === colorKey && <div className="w-3 h-3 bg-white rounded-full shadow-sm" />}
+          </button>
+        ))}
+      </div>
+
+      {outcome && (
+        <div
+          className="absolute inset-0 z-40 bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center gap-3 text-white animate-in fade-in duration-300"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {hasWon && <Trophy size={36} className="text-yellow-400" />}
+          <h2 className="text-3xl font-black tracking-tight">
+            {outcome.winner === null ? 'Draw' : hasWon ? 'You Win!' : 'You Lose'}
+          </h2>
+          <div className="text-sm text-slate-300">Score {score}</div>
+          <div className="flex gap-2">
+            <button
+              onClick={onRematch}
+              className="flex items-center gap-2 px-5 py-2.5 rounded-full bg-indigo-600 hover:bg-indigo-500 font-bold transition-all active:scale-95"
+            >
+              <RotateCcw size={18} /> Rematch
+            </button>
+            <button
+              onClick={onExit}
+              className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 font-bold transition-all active:scale-95"
+            >
+              Menu
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface VersusGameProps {
+  difficulty: Difficulty;
+  isMuted: boolean;
+  theme: Theme;
+  onExit: () => void;
+}
+
+export const VersusGame: React.FC<VersusGameProps> = ({ difficulty, isMuted, theme, onExit }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sidesRef = useRef<Side[]>(null!);
+  if (sidesRef.current === null) sidesRef.current = createSides(difficulty);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([null, null]);
+  const dimensionsRef = useRef([{ width: 0, height: 0 }, { width: 0, height: 0 }]);
+  const warningTimersRef = useRef([0, 0]);
+  const outcomeRef = useRef<Outcome | null>(null);
+  const requestRef = useRef<number | null>(null);
+  const lastTimeRef = useRef<number | null>(null);
+
+  const [isLandscape, setIsLandscape] = useState(() => window.innerWidth > window.innerHeight);
+  const [scores, setScores] = useState([0, 0]);
+  const [streaks, setStreaks] = useState([0, 0]);
+  const [selectedColors, setSelectedColors] = useState<ColorType[]>([ColorType.RED, ColorType.RED]);
+  const [underAttack, setUnderAttack] = useState([false, false]);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const updateLayout = () => setIsLandscape(container.clientWidth > container.clientHeight);
+    const resizeObserver = new ResizeObserver(updateLayout);
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  // Both engines stop when the app goes to the background, like the single-player game does.
+  // A finished match has nothing left to run, so its result stays up instead.
+  useEffect(() => {
+    const pause = () => {
+      if (!outcomeRef.current) setIsPaused(true);
+    };
+    const handleVisibility = () => {
+      if (document.hidden) pause();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', pause);
+
+    // 'deactivated' was added in Bot API 8.0
+    const tg = window.Telegram?.WebApp;
+    const hasActivationEvents = !!(tg && tg.isVersionAtLeast && tg.isVersionAtLeast('8.0'));
+    if (hasActivationEvents) tg!.onEvent('deactivated', pause);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', pause);
+      if (hasActivationEvents) tg!.offEvent('deactivated', pause);
+    };
+  }, []);
+
+  // Stable per side, so the halves' resize observers aren't torn down every render
+  const resizeHandlers = useRef([0, 1].map(player => (width: number, height: number) => {
+    dimensionsRef.current[player] = { width, height };
+    sidesRef.current[player].inputs.push({ type: 'RESIZE', width, height });
+  })).current;
+
+  const canvasHandlers = useRef([0, 1].map(player => (canvas: HTMLCanvasElement | null) => {
+    canvasRefs.current[player] = canvas;
+  })).current;
+
+  const shoot = (player: number, x: number, y: number) => {
+    if (outcomeRef.current) return;
+    sidesRef.current[player].inputs.push({ type: 'SHOOT', x: Math.round(x), y: Math.round(y) });
+  };
+
+  const selectColor = (player: number, color: ColorType) => {
+    if (outcomeRef.current) return;
+    sidesRef.current[player].inputs.push({ type: 'SELECT_COLOR', color });
+    setSelectedColors(current => current.map((c, i) => i === player ? color : c));
+    playSound('rotate', isMuted);
+  };
+
+  const rematch = () => {
+    playSound('ui', isMuted);
+    sidesRef.current = createSides(difficulty);
+    sidesRef.current.forEach((side, player) => side.inputs.push({ type: 'RESIZE', ...dimensionsRef.current[player] }));
+    warningTimersRef.current = [0, 0];
+    outcomeRef.current = null;
+    setOutcome(null);
+    setSelectedColors([ColorType.RED, ColorType.RED]);
+  };
+
+  const resume = () => {
+    playSound('ui', isMuted);
+    setIsPaused(false);
+  };
+
+  const animate = useCallback((time: number) => {
+    const sides = sidesRef.current;
+    const frameTime = lastTimeRef.current !== null ? time - lastTimeRef.current : 0;
+    lastTimeRef.current = time;
+
+    // While paused nothing advances and the last frame stays on screen, so resuming picks up
+    // exactly where the match stopped
+    if (isPaused) {
+        requestRef.current = requestAnimationFrame(animate);
+        return;
+    }
+
+    // 1. Simulate both halves; kills on one side drop garbage on the other
+    if (!outcomeRef.current) {
+        sides.forEach((side, player) => {
+            const opponent = 1 - player;
+            const events = advanceGame(side.engine, frameTime, side.inputs.splice(0));
+            for (const event of events) {
+                if (event.type === 'SOUND') playSound(event.sound, isMuted);
+                if (event.type === 'GARBAGE') {
+                    receiveGarbage(sides[opponent].engine, event.count);
+                    warningTimersRef.current[opponent] = GARBAGE_WARNING;
+                }
+            }
+        });
+
+        // 2. The first mismatch decides the match
+        const lost = sides.map(side => side.engine.isEnding);
+        if (lost[0] || lost[1]) {
+            const result: Outcome = { winner: lost[0] && lost[1] ? null : lost[0] ? 1 : 0 };
+            outcomeRef.current = result;
+            setOutcome(result);
+            playSound(result.winner === null ? 'gameover' : 'levelUp', isMuted);
+        }
+    }
+
+    warningTimersRef.current = warningTimersRef.current.map(t => Math.max(0, t - frameTime));
+
+    // 3. HUD (React skips the re-render when nothing changed)
+    const nextScores = sides.map(side => Math.floor(side.engine.score));
+    const nextStreaks = sides.map(side => side.engine.streak);
+    const nextUnderAttack = warningTimersRef.current.map(t => t > 0);
+    setScores(current => current[0] === nextScores[0] && current[1] === nextScores[1] ? current : nextScores);
+    setStreaks(current => current[0] === nextStreaks[0] && current[1] === nextStreaks[1] ? current : nextStreaks);
+    setUnderAttack(current => current[0] === nextUnderAttack[0] && current[1] === nextUnderAttack[1] ? current : nextUnderAttack);
+
+    // 4. Render
+    sides.forEach((side, player) => {
+        const canvas = canvasRefs.current[player];
+        const { width, height } = dimensionsRef.current[player];
+        if (!canvas || width === 0) return;
+        const alpha = getInterpolationAlpha(side.engine);
+        drawScene(canvas, {
+            width,
+            height,
+            targets: interpolateTargets(side.engine.targets, alpha),
+            projectiles: interpolateProjectiles(side.engine.projectilePool.filter(p => p.active), alpha),
+            pickups: [],
+            particles: [],
+            time: side.engine.time,
+            now: time,
+            theme
+        });
+    });
+
+    requestRef.current = requestAnimationFrame(animate);
+  }, [isMuted, theme, isPaused]);
+
+  useEffect(() => {
+    requestRef.current = requestAnimationFrame(animate);
+    return () => {
+      if (requestRef.current !== null) cancelAnimationFrame(requestRef.current);
+    };
+  }, [animate]);
+
+  const handleExit = () => {
+    playSound('ui', isMuted);
+    onExit();
+  };
+
+  return (
+    <div ref={containerRef} className={`absolute inset-0 flex ${isLandscape ? 'flex-row' : 'flex-col-reverse'}`}>
+      {[0, 1].map(player => (
+        <React.Fragment key={player}>
+          {player === 1 && <div className={isLandscape ? `w-px ${theme === 'dark' ? 'bg-white/10' : 'bg-slate-300'}` : `h-px ${theme === 'dark' ? 'bg-white/10' : 'bg-slate-300'}`} />}
+          <VersusSide
+            player={player}
+            flipped={!isLandscape && player === 1}
+            theme={theme}
+            score={scores[player]}
+            streak={streaks[player]}
+            selectedColor={selectedColors[player]}
+            isUnderAttack={underAttack[player]}
+            outcome={outcome}
+            canvasRef={canvasHandlers[player]}
+            onResize={resizeHandlers[player]}
+            onShoot={(x, y) => shoot(player, x, y)}
+            onSelectColor={(color) => selectColor(player, color)}
+            onRematch={rematch}
+            onExit={handleExit}
+          />
+        </React.Fragment>
+      ))}
+
+      <button
+        onClick={handleExit}
+        className={`absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-50 p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-white hover:bg-slate-100 border border-slate-200 text-slate-600'}`}
+        title="Leave match"
+      >
+        <X size={18} />
+      </button>
+
+      {isPaused && (
+        <div
+          className="absolute inset-0 z-[60] bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center gap-4 text-white animate-in fade-in duration-200"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center gap-2 text-3xl font-black tracking-tight">
+            <Pause size={28} /> Paused
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={resume}
+              className="flex items-center gap-2 px-5 py-2.5 rounded-full bg-indigo-600 hover:bg-indigo-500 font-bold transition-all active:scale-95"
+            >
+              <Play size={18} /> Resume
+            </button>
+            <button
+              onClick={handleExit}
+              className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 font-bold transition-all active:scale-95"
+            >
+              Menu
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
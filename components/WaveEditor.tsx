@@ -0,0 +1,390 @@
+import React, { useState, useRef } from 'react';
+import { ChevronLeft, Download, Upload, Play, Plus, Minus, Trash2, PenTool, Star } from 'lucide-react';
+import { Stage, StageTarget, StageGoal, Theme, TargetType, TargetShape, ColorType } from '../types';
+import { COLORS, COLOR_KEYS, GAME_CONFIG, EDITOR_CONFIG } from '../constants';
+import { playSound } from '../utils/sound';
+import { encodeStage, decodeStage } from '../utils/campaign';
+
+interface WaveEditorProps {
+  stage: Stage;
+  onChange: (stage: Stage) => void;
+  onTestPlay: () => void;
+  onBack: () => void;
+  theme: Theme;
+  isMuted: boolean;
+}
+
+// Everything about a target except where it goes; new targets are placed with this
+type Brush = Omit<StageTarget, 'x' | 'y'>;
+
+const DEFAULT_BRUSH: Brush = { type: TargetType.NORMAL, color: ColorType.RED, shape: TargetShape.CIRCLE, vx: 0, vy: 0 };
+
+const VELOCITY_PREVIEW_TICKS = 20; // Length of the velocity arrow, in ticks of movement
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const round = (value: number, step: number) => Math.round(value / step) * step;
+const toFraction = (value: number, size: number) => Math.round((value / size) * 100) / 100;
+
+const starPoints = (r: number) => Array.from({ length: 10 }, (_, i) => {
+  const angle = (i * Math.PI) / 5 - Math.PI / 2;
+  const radius = i % 2 === 0 ? r : r * 0.45;
+  return `${Math.cos(angle) * radius},${Math.sin(angle) * radius}`;
+}).join(' ');
+
+// Outline of a shape centred on 0,0, in preview units
+const renderShape = (shape: TargetShape, r: number, color: string, fill: string) => {
+  const common = { stroke: color, strokeWidth: 4, fill, strokeLinejoin: 'round' as const };
+  switch (shape) {
+    case TargetShape.SQUARE: return <rect x={-r} y={-r} width={r * 2} height={r * 2} rx={r * 0.25} {...common} />;
+    case TargetShape.DIAMOND: return <polygon points={`0,${-r} ${r},0 0,${r} ${-r},0`} {...common} />;
+    case TargetShape.TRIANGLE: return <polygon points={`0,${-r * 0.85} ${r * 0.85},${r * 0.7} ${-r * 0.85},${r * 0.7}`} {...common} />;
+    case TargetShape.STAR: return <polygon points={starPoints(r)} {...common} />;
+    default: return <circle r={r} {...common} />;
+  }
+};
+
+export const WaveEditor: React.FC<WaveEditorProps> = ({
+  stage,
+  onChange,
+  onTestPlay,
+  onBack,
+  theme,
+  isMuted
+}) => {
+  const [waveIndex, setWaveIndex] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null); // Target index in the current wave
+  const [brush, setBrush] = useState<Brush>(DEFAULT_BRUSH);
+  const [importError, setImportError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const overlayBg = theme === 'dark' ? 'bg-slate-900/95' : 'bg-slate-50/95';
+  const textColor = theme === 'dark' ? 'text-white' : 'text-slate-900';
+  const subTextColor = theme === 'dark' ? 'text-slate-400' : 'text-slate-500';
+  const cardBg = theme === 'dark' ? 'bg-slate-800' : 'bg-white shadow-sm border border-slate-200';
+  const stepButton = `p-1 rounded-md ${theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-200 text-slate-700'}`;
+  const chipClass = (isSelected: boolean) => `px-2 py-1.5 rounded-lg text-xs font-bold capitalize transition-colors border ${isSelected
+      ? 'bg-violet-500/20 border-violet-500/50 text-violet-500'
+      : theme === 'dark' ? 'bg-slate-800 border-slate-700 text-slate-500' : 'bg-white border-slate-200 text-slate-400'}`;
+
+  const wave = stage.waves[Math.min(waveIndex, stage.waves.length - 1)];
+  const selectedTarget = selected !== null ? wave.targets[selected] : undefined;
+  // The property pickers edit the selected target, or the brush when nothing is selected
+  const current: Brush = selectedTarget ?? brush;
+  const hasTargets = stage.waves.some(w => w.targets.length > 0);
+  const surviveSeconds = stage.goal.type === 'SURVIVE' ? stage.goal.seconds : null;
+
+  const updateWave = (targets: StageTarget[], at = wave.at) => {
+      onChange({ ...stage, waves: stage.waves.map(w => w === wave ? { at, targets } : w) });
+  };
+
+  const selectWave = (index: number) => {
+      playSound('ui', isMuted);
+      setWaveIndex(index);
+      setSelected(null);
+  };
+
+  const addWave = () => {
+      const last = stage.waves[stage.waves.length - 1];
+      onChange({ ...stage, waves: [...stage.waves, { at: last.at + EDITOR_CONFIG.WAVE_GAP, targets: [] }] });
+      selectWave(stage.waves.length);
+  };
+
+  const deleteWave = () => {
+      if (stage.waves.length <= 1) return;
+      playSound('ui', isMuted);
+      onChange({ ...stage, waves: stage.waves.filter(w => w !== wave) });
+      setWaveIndex(Math.max(0, waveIndex - 1));
+      setSelected(null);
+  };
+
+  // Waves stay in start-time order (the engine relies on it), so a wave can't move past its neighbours
+  const changeWaveTime = (delta: number) => {
+      const index = stage.waves.indexOf(wave);
+      const min = stage.waves[index - 1]?.at ?? 0;
+      const max = stage.waves[index + 1]?.at ?? Infinity;
+      updateWave(wave.targets, clamp(round(wave.at + delta, EDITOR_CONFIG.TIME_STEP), min, max));
+  };
+
+  const placeTarget = (e: React.MouseEvent<SVGSVGElement>) => {
+      const svg = svgRef.current;
+      const matrix = svg?.getScreenCTM();
+      if (!svg || !matrix) return;
+
+      const point = svg.createSVGPoint();
+      point.x = e.clientX;
+      point.y = e.clientY;
+      const { x, y } = point.matrixTransform(matrix.inverse());
+      const fx = toFraction(x, EDITOR_CONFIG.PREVIEW_WIDTH);
+      const fy = toFraction(y, EDITOR_CONFIG.PREVIEW_HEIGHT);
+      if (fx < 0 || fx > 1 || fy < 0 || fy > 1) return;
+
+      playSound('pop', isMuted);
+      updateWave([...wave.targets, { ...brush, x: fx, y: fy }]);
+      setSelected(wave.targets.length);
+  };
+
+  const selectTarget = (e: React.MouseEvent, index: number) => {
+      e.stopPropagation();
+      playSound('ui', isMuted);
+      setSelected(selected === index ? null : index);
+  };
+
+  const deleteTarget = () => {
+      if (selected === null) return;
+      playSound('ui', isMuted);
+      updateWave(wave.targets.filter((_, i) => i !== selected));
+      setSelected(null);
+  };
+
+  const changeProperty = (patch: Partial<Brush>) => {
+      playSound('ui', isMuted);
+      setBrush(b => ({ ...b, ...patch }));
+      if (selected !== null) updateWave(wave.targets.map((t, i) => i === selected ? { ...t, ...patch } : t));
+  };
+
+  const changeVelocity = (axis: 'vx' | 'vy', delta: number) => {
+      const value = clamp(round(current[axis] + delta, EDITOR_CONFIG.SPEED_STEP), -EDITOR_CONFIG.MAX_SPEED, EDITOR_CONFIG.MAX_SPEED);
+      changeProperty({ [axis]: value });
+  };
+
+  const changeGoal = (goal: StageGoal) => {
+      playSound('ui', isMuted);
+      onChange({ ...stage, goal });
+  };
+
+  const changeStarThreshold = (index: number, value: string) => {
+      const stars = [...stage.stars] as Stage['stars'];
+      stars[index] = Math.max(0, Math.floor(Number(value) || 0));
+      onChange({ ...stage, stars });
+  };
+
+  const handleExport = () => {
+      playSound('ui', isMuted);
+      const blob = new Blob([encodeStage(stage)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chroma-shot-stage-${stage.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'custom'}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow importing the same file again
+      if (!file) return;
+
+      file.text().then(text => {
+          const imported = decodeStage(text);
+          if (imported) {
+              setImportError(null);
+              playSound('ui', isMuted);
+              onChange(imported);
+              setWaveIndex(0);
+              setSelected(null);
+          } else {
+              setImportError('That file is not a valid Chroma Shot stage.');
+          }
+      }).catch(() => setImportError('Could not read that file.'));
+  };
+
+  const targetFill = theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.6)';
+
+  return (
+    <div className={`absolute inset-0 flex flex-col items-center z-40 overflow-hidden ${overlayBg}`}>
+        <div className="relative w-full max-w-lg h-full flex flex-col p-6 z-10 overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+                <button onClick={onBack} className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700' : 'bg-white hover:bg-slate-100 border border-slate-200'}`}>
+                    <ChevronLeft className={theme === 'dark' ? 'text-white' : 'text-slate-800'} />
+                </button>
+                <h2 className={`text-2xl font-bold flex items-center gap-2 ${textColor}`}>
+                    <PenTool className="text-violet-500" /> Wave Editor
+                </h2>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-white hover:bg-slate-100 border border-slate-200 text-slate-600'}`}
+                        title="Import stage"
+                    >
+                        <Upload size={20} />
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        className={`p-2 rounded-full transition-colors ${theme === 'dark' ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-white hover:bg-slate-100 border border-slate-200 text-slate-600'}`}
+                        title="Export stage"
+                    >
+                        <Download size={20} />
+                    </button>
+                </div>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+
+            {importError && (
+                <div className="mb-4 px-4 py-2 rounded-lg bg-red-500/10 text-red-500 text-sm">{importError}</div>
+            )}
+
+            {/* Stage settings */}
+            <div className={`${cardBg} p-3 rounded-xl mb-3 space-y-3`}>
+                <input
+                    value={stage.name}
+                    onChange={e => onChange({ ...stage, name: e.target.value })}
+                    maxLength={32}
+                    className={`w-full bg-transparent font-bold text-lg outline-none select-text ${textColor}`}
+                />
+                <div className="flex items-center gap-2">
+                    <button onClick={() => changeGoal({ type: 'CLEAR_ALL' })} className={chipClass(stage.goal.type === 'CLEAR_ALL')}>Clear all</button>
+                    <button onClick={() => changeGoal({ type: 'SURVIVE', seconds: 30 })} className={chipClass(stage.goal.type === 'SURVIVE')}>Survive</button>
+                    {surviveSeconds !== null && (
+                        <div className="flex items-center gap-2 ml-auto">
+                            <button onClick={() => changeGoal({ type: 'SURVIVE', seconds: Math.max(5, surviveSeconds - 5) })} className={stepButton}><Minus size={14} /></button>
+                            <span className={`w-10 text-center text-sm font-bold ${textColor}`}>{surviveSeconds}s</span>
+                            <button onClick={() => changeGoal({ type: 'SURVIVE', seconds: Math.min(EDITOR_CONFIG.MAX_SURVIVE, surviveSeconds + 5) })} className={stepButton}><Plus size={14} /></button>
+                        </div>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    {stage.stars.map((threshold, index) => (
+                        <label key={index} className={`flex-1 flex items-center gap-1 text-xs ${subTextColor}`}>
+                            <Star size={12} className="text-yellow-400 fill-yellow-400 flex-shrink-0" />{index + 1}
+                            <input
+                                type="number"
+                                min={0}
+                                value={threshold}
+                                onChange={e => changeStarThreshold(index, e.target.value)}
+                                className={`w-full min-w-0 px-1 py-0.5 rounded-md text-xs font-bold outline-none select-text ${theme === 'dark' ? 'bg-white/10 text-white' : 'bg-slate-100 text-slate-700'}`}
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {/* Waves */}
+            <div className="flex items-center gap-2 mb-3 overflow-x-auto pb-1">
+                {stage.waves.map((w, index) => (
+                    <button key={index} onClick={() => selectWave(index)} className={`${chipClass(w === wave)} whitespace-nowrap`}>
+                        {index + 1} · {w.at}s · {w.targets.length}
+                    </button>
+                ))}
+                <button onClick={addWave} className={stepButton} title="Add wave"><Plus size={16} /></button>
+            </div>
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <span className={`text-xs uppercase tracking-widest ${subTextColor}`}>Starts at</span>
+                    <button onClick={() => changeWaveTime(-EDITOR_CONFIG.TIME_STEP)} className={stepButton}><Minus size={14} /></button>
+                    <span className={`w-10 text-center text-sm font-bold ${textColor}`}>{wave.at}s</span>
+                    <button onClick={() => changeWaveTime(EDITOR_CONFIG.TIME_STEP)} className={stepButton}><Plus size={14} /></button>
+                </div>
+                <button
+                    onClick={deleteWave}
+                    disabled={stage.waves.length <= 1}
+                    className="flex items-center gap-1 text-xs font-bold text-red-500 disabled:opacity-30"
+                >
+                    <Trash2 size={14} /> Wave
+                </button>
+            </div>
+
+            {/* Playfield: click empty space to place, click a target to select it */}
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${EDITOR_CONFIG.PREVIEW_WIDTH} ${EDITOR_CONFIG.PREVIEW_HEIGHT}`}
+                className="w-full h-[45vh] flex-shrink-0 mb-3 cursor-crosshair"
+                onClick={placeTarget}
+            >
+                <rect
+                    width={EDITOR_CONFIG.PREVIEW_WIDTH}
+                    height={EDITOR_CONFIG.PREVIEW_HEIGHT}
+                    rx={16}
+                    fill={theme === 'dark' ? '#1e293b' : '#ffffff'}
+                    stroke={theme === 'dark' ? '#334155' : '#e2e8f0'}
+                    strokeWidth={2}
+                />
+                {[0.25, 0.5, 0.75].map(f => (
+                    <g key={f} stroke={theme === 'dark' ? '#ffffff10' : '#0000000d'} strokeWidth={1}>
+                        <line x1={f * EDITOR_CONFIG.PREVIEW_WIDTH} y1={0} x2={f * EDITOR_CONFIG.PREVIEW_WIDTH} y2={EDITOR_CONFIG.PREVIEW_HEIGHT} />
+                        <line x1={0} y1={f * EDITOR_CONFIG.PREVIEW_HEIGHT} x2={EDITOR_CONFIG.PREVIEW_WIDTH} y2={f * EDITOR_CONFIG.PREVIEW_HEIGHT} />
+                    </g>
+                ))}
+                {wave.targets.map((target, index) => {
+                    const x = target.x * EDITOR_CONFIG.PREVIEW_WIDTH;
+                    const y = target.y * EDITOR_CONFIG.PREVIEW_HEIGHT;
+                    const r = target.type === TargetType.BOSS ? GAME_CONFIG.BOSS_RADIUS : GAME_CONFIG.TARGET_RADIUS;
+                    const color = COLORS[target.color];
+                    return (
+                        <g key={index} transform={`translate(${x},${y})`} onClick={e => selectTarget(e, index)} className="cursor-pointer">
+                            {index === selected && <circle r={r + 8} fill="none" stroke="#8b5cf6" strokeWidth={3} strokeDasharray="6 4" />}
+                            {renderShape(target.shape, r, color, targetFill)}
+                            {target.type !== TargetType.NORMAL && (
+                                <text textAnchor="middle" dominantBaseline="central" fontSize={14} fontWeight="bold" fill={color}>
+                                    {target.type[0]}
+                                </text>
+                            )}
+                            {(target.vx !== 0 || target.vy !== 0) && (
+                                <line
+                                    x1={0} y1={0}
+                                    x2={target.vx * VELOCITY_PREVIEW_TICKS} y2={target.vy * VELOCITY_PREVIEW_TICKS}
+                                    stroke={color} strokeWidth={3} strokeLinecap="round" opacity={0.7}
+                                />
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            {/* Target properties */}
+            <div className={`${cardBg} p-3 rounded-xl mb-4 space-y-3`}>
+                <div className="flex items-center justify-between">
+                    <span className={`text-xs uppercase tracking-widest ${subTextColor}`}>{selectedTarget ? 'Selected target' : 'New targets'}</span>
+                    {selectedTarget && (
+                        <button onClick={deleteTarget} className="flex items-center gap-1 text-xs font-bold text-red-500">
+                            <Trash2 size={14} /> Remove
+                        </button>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    {COLOR_KEYS.map(color => (
+                        <button
+                            key={color}
+                            onClick={() => changeProperty({ color })}
+                            className={`flex-1 h-8 rounded-lg transition-transform ${current.color === color ? 'ring-2 ring-offset-2 ring-violet-500 scale-105' : 'opacity-60'} ${theme === 'dark' ? 'ring-offset-slate-800' : ''}`}
+                            style={{ backgroundColor: COLORS[color] }}
+                        />
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {Object.values(TargetType).filter(type => type !== TargetType.SATELLITE).map(type => (
+                        <button key={type} onClick={() => changeProperty({ type })} className={chipClass(current.type === type)}>
+                            {type.replace('_', ' ').toLowerCase()}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {Object.values(TargetShape).map(shape => (
+                        <button key={shape} onClick={() => changeProperty({ shape })} className={chipClass(current.shape === shape)}>
+                            {shape.toLowerCase()}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex justify-between">
+                    {(['vx', 'vy'] as const).map(axis => (
+                        <div key={axis} className="flex items-center gap-2">
+                            <span className={`text-xs font-bold uppercase ${subTextColor}`}>{axis}</span>
+                            <button onClick={() => changeVelocity(axis, -EDITOR_CONFIG.SPEED_STEP)} className={stepButton}><Minus size={14} /></button>
+                            <span className={`w-8 text-center text-sm font-bold ${textColor}`}>{current[axis]}</span>
+                            <button onClick={() => changeVelocity(axis, EDITOR_CONFIG.SPEED_STEP)} className={stepButton}><Plus size={14} /></button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <button
+                onClick={onTestPlay}
+                disabled={!hasTargets}
+                className="inline-flex items-center justify-center px-8 py-4 font-bold text-white transition-all duration-200 bg-violet-600 rounded-full hover:bg-violet-500 hover:scale-105 active:scale-95 shadow-lg shadow-violet-500/30 w-full flex-shrink-0 disabled:opacity-40 disabled:hover:scale-100"
+            >
+                <Play className="mr-2" /> Test Play
+            </button>
+        </div>
+    </div>
+  );
+};
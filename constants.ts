@@ -1,5 +1,5 @@
 
-import { ColorType, Difficulty, Achievement, GameStats, TargetType } from './types';
+import { ColorType, Difficulty, Achievement, GameStats, TargetType, GameMode, RunConfig, PickupKind } from './types';
 
 export const COLORS = {
   [ColorType.RED]: '#ef4444',    // red-500
@@ -17,6 +17,11 @@ export const TARGET_SCORES = {
   [TargetType.STATIONARY]: 15,
   [TargetType.COLOR_SHIFT]: 25,
   [TargetType.SINE_WAVE]: 25,
+  [TargetType.BOMB]: 20,
+  [TargetType.MIRROR]: 30,     // Only the core face counts
+  [TargetType.GHOST]: 25,
+  [TargetType.CLUSTER]: 40,    // Plus CLUSTER.CORE_BONUS for clearing it
+  [TargetType.SATELLITE]: 15,
   [TargetType.BOSS]: 250       // Reduced from 500 to balance progress bar flow
 };
 
@@ -45,6 +50,143 @@ export const DIFFICULTY_SETTINGS = {
   [Difficulty.HARD]: { speedMultiplier: 1.5, spawnIntervalMultiplier: 0.7, maxTargets: 16, scoreMultiplier: 2, bossHealthMulti: 1.5 },
 };
 
+// Everyone plays the Daily Challenge on the same difficulty so scores are comparable
+export const DAILY_DIFFICULTY = Difficulty.MEDIUM;
+// Campaign stages are authored (and their star scores set) for one difficulty
+export const CAMPAIGN_DIFFICULTY = Difficulty.MEDIUM;
+
+export const CLASSIC_CONFIG: RunConfig = { mode: GameMode.CLASSIC };
+
+export const TIME_ATTACK = {
+  DURATIONS: [60, 120],     // Seconds, picked on the menu
+  MISMATCH_PENALTY: 5000,   // ms taken off the clock for a wrong color
+  BULLSEYE_ACCURACY: 0.75,  // Hits at least this centred drop a time pickup
+  PICKUP_BONUS: 3000,       // ms added by a time pickup
+  PICKUP_LIFETIME: 5000,
+  PICKUP_RADIUS: 18,
+  PICKUP_COLOR: '#fbbf24'   // amber-400
+};
+
+// Target types a practice drill can be built from (bosses are drilled separately by level)
+export const PRACTICE_TARGET_TYPES = [
+  TargetType.NORMAL,
+  TargetType.TOUGH,
+  TargetType.SPLIT,
+  TargetType.STATIONARY,
+  TargetType.COLOR_SHIFT,
+  TargetType.SINE_WAVE,
+  TargetType.BOMB,
+  TargetType.MIRROR,
+  TargetType.GHOST,
+  TargetType.CLUSTER
+];
+export const PRACTICE_MAX_BOSS_LEVEL = 10;
+
+export const LIVES_CONFIG = {
+  START: 3,
+  MAX: 5,                   // Boss kills top up to this many
+  INVULNERABILITY: 1500     // ms after losing a life in which mismatches are forgiven
+};
+
+export const BOSS_RUSH = {
+  BOSSES: 8,                // Beating this many is a full clear
+  BREATHER: 3000,           // ms between a boss going down and the next one arriving (and before the first)
+  // Ability timers (ms) shrink with every boss beaten
+  COLOR_SHIFT_START: 2500,
+  COLOR_SHIFT_MIN: 1200,
+  COLOR_SHIFT_STEP: 200,
+  SUMMON_START: 5000,
+  SUMMON_MIN: 2000,
+  SUMMON_STEP: 400
+};
+
+export const VERSUS = {
+  KILLS_PER_GARBAGE: 3,     // Every third target destroyed sends one to the opponent
+  BOSS_GARBAGE: 3,          // A boss kill sends this many at once
+  GARBAGE_HEALTH: 2
+};
+
+export const COOP = {
+  SHOOTER_OFFSET: 0.25,     // Shooters sit this fraction of the width in from each edge
+  BOSS_HEALTH_MULTI: 1.75   // Two guns on one boss
+};
+
+export const BOMB = {
+  RADIUS: 120,              // Blast reach from the bomb's center to a target's edge
+  CHAIN_BONUS: 10           // Extra points per blast kill, times how deep into the chain its blast is (the first bomb is 1)
+};
+
+export const MIRROR = {
+  CORE_ARC: Math.PI / 2,    // Width of the colored face, centred on the target's rotation; the rest reflects
+  MAX_BOUNCES: 3,           // A shot reflected this many times shatters on the next facet
+  FACETS: 6,                // Flat panels drawn around the reflective part of the rim
+  RIM_COLOR: '#cbd5e1'      // slate-300
+};
+
+export const GHOST = {
+  SOLID_TIME: 2500,         // ms a ghost can be hit for
+  PHASED_TIME: 1800,        // ms it spends intangible
+  TELEGRAPH: 600,           // The last ms of either state, in which it fades and blinks towards the next
+  BLINK: 100,
+  PHASED_OPACITY: 0.12
+};
+
+export const CLUSTER = {
+  MIN_SATELLITES: 2,
+  MAX_SATELLITES: 4,
+  SATELLITE_RADIUS: 15,
+  ORBIT_RADIUS: 60,         // From the core's center to each satellite's
+  ORBIT_SPEED: 0.035,       // Radians per tick
+  SPEED_MULTI: 0.6,         // Cores drift slower than lone targets
+  CORE_BONUS: 100
+};
+
+export const POWER_UPS = {
+  SPAWN_INTERVAL: 15000,    // ms between power-ups floating in (randomised by +/-30%)
+  LIFETIME: 7000,
+  RADIUS: 18,
+  TOUGH_DROP_CHANCE: 0.2,   // Bosses always drop one
+  SLOW_MO_DURATION: 6000,
+  SLOW_MO_FACTOR: 0.4,      // Target speed while slow-motion is active
+  MULTISHOT_DURATION: 8000,
+  MULTISHOT_SPREAD: 0.2,    // Radians between the aimed shot and each extra one
+  RAINBOW_DURATION: 5000
+};
+
+export const POWER_UP_KINDS: PickupKind[] = ['SLOW_MO', 'MULTISHOT', 'RAINBOW', 'SHIELD'];
+
+// How each pickup looks on the playfield
+export const PICKUP_STYLES: Record<PickupKind, { color: string; label: string }> = {
+  TIME: { color: TIME_ATTACK.PICKUP_COLOR, label: `+${TIME_ATTACK.PICKUP_BONUS / 1000}s` },
+  SLOW_MO: { color: '#38bdf8', label: 'SLOW' },   // sky-400
+  MULTISHOT: { color: '#f97316', label: 'x3' },   // orange-500
+  RAINBOW: { color: '#e879f9', label: 'ANY' },    // fuchsia-400
+  SHIELD: { color: '#a3e635', label: 'SHLD' }     // lime-400
+};
+
+export const AMMO_CONFIG = {
+  MAGAZINE: 8,
+  RELOAD_TIME: 1500,        // ms to refill an emptied magazine
+  KILL_REFILL: 1,           // Rounds given back for each target destroyed
+  MISS_COST: 1              // Extra rounds lost when a shot leaves the screen without hitting anything
+};
+
+export const COLOR_QUEUE = {
+  LENGTH: 3,                // Upcoming colors shown after the loaded one
+  FIELD_BIAS: 0.75,         // Chance a new queue color is copied from a target on the field
+  MISS_PENALTY: 10          // Points lost when a shot leaves the screen without hitting anything
+};
+
+export const EDITOR_CONFIG = {
+  PREVIEW_WIDTH: 390,       // Playfield the editor lays stages out on (a typical phone, minus the controls)
+  PREVIEW_HEIGHT: 680,
+  MAX_SPEED: 5,             // px per tick, either axis
+  SPEED_STEP: 0.5,
+  TIME_STEP: 0.5,           // Seconds a wave's start time moves per click
+  WAVE_GAP: 3,              // Seconds between the last wave and a newly added one
+  MAX_SURVIVE: 180
+};
+
 export const INITIAL_STATS: GameStats = {
   totalScore: 0,
   highScore: 0,
@@ -58,9 +200,26 @@ export const INITIAL_STATS: GameStats = {
   stationaryKills: 0,
   colorShiftKills: 0,
   sineWaveKills: 0,
+  mirrorKills: 0,
+  ghostKills: 0,
+  clusterKills: 0,
   bossKills: 0,
+  bombKills: 0,
+  bombChainKills: 0,
+  longestBombChain: 0,
   highestLevel: 1,
-  hardModeGames: 0
+  hardModeGames: 0,
+  livesGames: 0,
+  livesHighScore: 0,
+  livesLost: 0,
+  ammoGames: 0,
+  ammoShotsFired: 0,
+  ammoShotsLanded: 0,
+  reloads: 0,
+  slowMoPickups: 0,
+  multishotPickups: 0,
+  rainbowPickups: 0,
+  shieldPickups: 0
 };
 
 export const ACHIEVEMENT_DEFINITIONS: Omit<Achievement, 'isUnlocked'>[] = [
@@ -159,6 +318,24 @@ export const ACHIEVEMENT_DEFINITIONS: Omit<Achievement, 'isUnlocked'>[] = [
     condition: (s) => s.bossKills >= 50,
     progress: (s) => Math.min(100, (s.bossKills / 50) * 100)
   },
+  {
+    id: 'bomb_chain_3',
+    title: 'Chain Reaction',
+    description: 'Set off a bomb chain three blasts long.',
+    icon: 'Bomb',
+    category: 'COMBAT',
+    condition: (s) => s.longestBombChain >= 3,
+    progress: (s) => Math.min(100, (s.longestBombChain / 3) * 100)
+  },
+  {
+    id: 'bomb_chain_kills_50',
+    title: 'Demolition Crew',
+    description: 'Destroy 50 targets with bomb blasts.',
+    icon: 'Radiation',
+    category: 'COMBAT',
+    condition: (s) => s.bombChainKills >= 50,
+    progress: (s) => Math.min(100, (s.bombChainKills / 50) * 100)
+  },
   {
     id: 'level_5',
     title: 'Level Up!',
@@ -0,0 +1,102 @@
+import { Difficulty, EngineInput, EngineState, GameMode, RunConfig } from '../types';
+import { CLASSIC_CONFIG, GAME_CONFIG } from '../constants';
+import { advanceGame, createEngineState, getShooterPosition, TICK_MS } from '../utils/engine';
+import { RandomSource, nextRandom, randomItem } from '../utils/random';
+import { CAMPAIGN } from '../utils/campaign';
+import { createReplayRecorder, decodeReplay, encodeReplay, isPlaybackFinished, recordInputs, recordTicks, startPlayback, stepPlayback } from '../utils/replay';
+
+// Replay round-trip check (npm test). Plays seeded runs headlessly with a bot, records them
+// the way Game.tsx does, then pushes each replay through the export format and re-simulates
+// it. The same seed and inputs must land on the same score, tick and stats, or saved replays
+// and daily runs stop matching what was played.
+
+const SEEDS = [1, 0x5EED, 0xC0FFEE];
+const MAX_TICKS = 60 * 60 * 3;  // Long enough to reach bosses and power-ups, short enough to stay quick
+const WIDTH = 480;
+const HEIGHT = 800;
+
+const CASES: { name: string; difficulty: Difficulty; config: RunConfig }[] = [
+  { name: 'classic', difficulty: Difficulty.MEDIUM, config: CLASSIC_CONFIG },
+  { name: 'classic hard', difficulty: Difficulty.HARD, config: CLASSIC_CONFIG },
+  { name: 'time attack', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.TIME_ATTACK, timeLimit: 60 } },
+  { name: 'lives', difficulty: Difficulty.EASY, config: { mode: GameMode.LIVES } },
+  { name: 'boss rush', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.BOSS_RUSH } },
+  { name: 'co-op', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.COOP } },
+  { name: 'ammo', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.AMMO } },
+  { name: 'color queue', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.QUEUE } },
+  { name: 'campaign', difficulty: Difficulty.MEDIUM, config: { mode: GameMode.CAMPAIGN, stage: CAMPAIGN[0] } }
+];
+
+// Modes where a wrong color costs something short of the run
+const FORGIVING_MODES = [GameMode.TIME_ATTACK, GameMode.LIVES];
+
+// Aims at the lowest target, which is the least likely to have anything in the way. Where a
+// mistake doesn't end the run it sometimes picks the wrong color, so penalties and lost lives
+// get exercised too.
+const botInputs = (engine: EngineState, bot: RandomSource): EngineInput[] => {
+  if (nextRandom(bot) > 0.08 || engine.targets.length === 0) return [];
+  // The color queue decides the color, so only targets of the loaded one are worth shooting
+  const queued = engine.config.mode === GameMode.QUEUE;
+  const targets = queued ? engine.targets.filter(t => t.color === engine.currentColor) : engine.targets;
+  if (targets.length === 0) return queued ? [{ type: 'SWAP' }] : [];
+  const target = targets.reduce((lowest, t) => t.y > lowest.y ? t : lowest);
+  const player = engine.config.mode === GameMode.COOP && nextRandom(bot) < 0.5 ? 1 : undefined;
+  const blunder = FORGIVING_MODES.includes(engine.config.mode) && nextRandom(bot) < 0.1;
+  const color = blunder ? randomItem(bot, engine.targets).color : target.color;
+  // Lead the target by roughly how long the shot takes to get there
+  const shooter = getShooterPosition(engine, player);
+  const flight = Math.hypot(target.x - shooter.x, target.y - shooter.y) / GAME_CONFIG.PROJECTILE_SPEED;
+  const x = Math.round(target.x + target.vx * flight);
+  const y = Math.round(target.y + target.vy * flight);
+
+  if (queued) return [{ type: 'SHOOT', x, y }];
+  return player ? [{ type: 'SELECT_COLOR', color, player }, { type: 'SHOOT', x, y, player }] : [{ type: 'SELECT_COLOR', color }, { type: 'SHOOT', x, y }];
+};
+
+const runCase = (seed: number, difficulty: Difficulty, config: RunConfig) => {
+  const engine = createEngineState(difficulty, seed, config);
+  const recorder = createReplayRecorder(seed, difficulty, config);
+  const bot: RandomSource = { rngState: seed ^ 0x9E3779B9 };
+
+  // Uneven frame times, like a real display, so the recording isn't one input per tick
+  let frame = 0;
+  while (!engine.isGameOver && engine.tick < MAX_TICKS) {
+    const inputs: EngineInput[] = frame === 0 ? [{ type: 'RESIZE', width: WIDTH, height: HEIGHT }] : botInputs(engine, bot);
+    recordInputs(recorder, engine.tick, inputs);
+    advanceGame(engine, TICK_MS * (0.5 + nextRandom(bot) * 2), inputs);
+    recordTicks(recorder, engine.tick);
+    frame++;
+  }
+  recorder.replay.score = engine.score;
+
+  const replay = decodeReplay(encodeReplay(recorder.replay));
+  if (!replay) return { engine, error: 'replay did not decode' };
+
+  const playback = startPlayback(replay);
+  while (!isPlaybackFinished(playback)) stepPlayback(playback);
+
+  const played = playback.engine;
+  if (played.score !== engine.score) return { engine, error: `score ${played.score}, expected ${engine.score}` };
+  if (played.tick !== engine.tick) return { engine, error: `tick ${played.tick}, expected ${engine.tick}` };
+  if (JSON.stringify(played.stats) !== JSON.stringify(engine.stats)) return { engine, error: 'stats differ' };
+  return { engine, error: null };
+};
+
+let failures = 0;
+for (const { name, difficulty, config } of CASES) {
+  for (const seed of SEEDS) {
+    const { engine, error } = runCase(seed, difficulty, config);
+    const summary = `${name} seed ${seed}: score ${engine.score} at tick ${engine.tick}`;
+    if (error) {
+      failures++;
+      console.error(`FAIL ${summary} - ${error}`);
+    } else {
+      console.log(`ok   ${summary}`);
+    }
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} replay(s) did not reproduce`);
+  process.exit(1);
+}
@@ -3,7 +3,11 @@
 export enum GameState {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
-  GAME_OVER = 'GAME_OVER'
+  PAUSED = 'PAUSED',
+  GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY',
+  EDITOR = 'EDITOR',
+  VERSUS = 'VERSUS'
 }
 
 export enum ColorType {
@@ -20,6 +24,11 @@ export enum TargetType {
   STATIONARY = 'STATIONARY',
   COLOR_SHIFT = 'COLOR_SHIFT',
   SINE_WAVE = 'SINE_WAVE',
+  BOMB = 'BOMB',
+  MIRROR = 'MIRROR',
+  GHOST = 'GHOST',
+  CLUSTER = 'CLUSTER',     // Core of an orbiter cluster
+  SATELLITE = 'SATELLITE', // Orbits a cluster core, never spawned on its own
   BOSS = 'BOSS'
 }
 
@@ -31,6 +40,59 @@ export enum TargetShape {
   STAR = 'STAR' // Reserved for Boss
 }
 
+// Rulesets a run can be played under
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  TIME_ATTACK = 'TIME_ATTACK',
+  LIVES = 'LIVES',
+  PRACTICE = 'PRACTICE',
+  CAMPAIGN = 'CAMPAIGN',
+  BOSS_RUSH = 'BOSS_RUSH',
+  VERSUS = 'VERSUS',
+  COOP = 'COOP',
+  QUEUE = 'QUEUE',
+  AMMO = 'AMMO'
+}
+
+// --- Authored stages (campaign.json) ---
+
+export interface StageTarget {
+  type: TargetType;
+  color: ColorType;
+  shape: TargetShape;
+  x: number;          // 0 to 1 across the playfield width
+  y: number;          // 0 to 1 down the playable height (above the controls)
+  vx: number;         // px per tick
+  vy: number;
+  health?: number;    // Overrides the default for TOUGH and BOSS targets
+}
+
+export interface StageWave {
+  at: number;         // Seconds after the stage starts
+  targets: StageTarget[];
+}
+
+export type StageGoal =
+  | { type: 'CLEAR_ALL' }                  // Every wave spawned and every target destroyed
+  | { type: 'SURVIVE'; seconds: number };  // Still standing when the time is up
+
+export interface Stage {
+  id: string;
+  name: string;
+  goal: StageGoal;
+  stars: [number, number, number]; // Score needed for each star, on top of clearing the stage
+  waves: StageWave[];
+}
+
+// How a run is set up. Stored with replays and saved runs so they re-simulate under the same rules.
+export interface RunConfig {
+  mode: GameMode;
+  timeLimit?: number; // Time Attack length in seconds
+  targetTypes?: TargetType[]; // Practice: the only types that spawn
+  bossLevel?: number;         // Practice: start at this level with its boss on the way (no bosses when unset)
+  stage?: Stage;              // Campaign: the stage being played
+}
+
 export enum Difficulty {
   EASY = 'EASY',
   MEDIUM = 'MEDIUM',
@@ -39,11 +101,14 @@ export enum Difficulty {
 
 export type Theme = 'light' | 'dark';
 
+export type RendererType = 'canvas' | 'dom';
+
 export interface GameSettings {
   isMuted: boolean;
   theme: Theme;
   difficulty: Difficulty;
   hasPlayedTutorial: boolean;
+  renderer: RendererType;
 }
 
 export interface Projectile {
@@ -55,6 +120,11 @@ export interface Projectile {
   color: ColorType;
   radius: number;
   active: boolean;
+  rainbow?: boolean;     // Rainbow power-up: matches any target color
+  bounces: number;       // Times this shot has been reflected off a mirror
+  // Position at the start of the current tick, for render interpolation
+  prevX?: number;
+  prevY?: number;
 }
 
 export interface Target {
@@ -79,6 +149,36 @@ export interface Target {
   
   // Boss specific
   summonTimer?: number;
+
+  // Ghost specific
+  phased?: boolean;      // Intangible: shots and other targets pass straight through
+  phaseTimer?: number;   // ms until it next phases in or out
+
+  // Cluster specific
+  shielded?: boolean;    // Core: satellites still orbiting, so shots can't reach it
+  coreId?: string;       // Satellite: the core it orbits
+  orbitAngle?: number;   // Satellite: radians around the core
+
+  // State at the start of the current tick, for render interpolation
+  prevX?: number;
+  prevY?: number;
+  prevRotation?: number;
+}
+
+export type PickupKind = 'TIME' | 'SLOW_MO' | 'MULTISHOT' | 'RAINBOW' | 'SHIELD';
+
+// Collectible floating item, picked up by shooting it with any color
+export interface Pickup {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  kind: PickupKind;
+  life: number;          // ms until it fades away
+  prevX?: number;
+  prevY?: number;
 }
 
 export interface Particle {
@@ -100,6 +200,105 @@ export interface GameDimensions {
   height: number;
 }
 
+// Engine Types
+
+export interface EngineState {
+  difficulty: Difficulty;
+  config: RunConfig;
+  seed: number;          // Seed the run was started with
+  rngState: number;      // Current state of the seeded generator
+  dimensions: GameDimensions;
+  projectilePool: Projectile[];
+  targets: Target[];
+  pickups: Pickup[];
+  currentColor: ColorType;
+  partnerColor: ColorType; // Co-op: the right-hand shooter's color
+  colorQueue: ColorType[]; // Color queue: the next colors to be loaded, front first
+  heldColor: ColorType | null; // Color queue: the swap slot
+  score: number;
+  level: number;
+  scoreSinceLastBoss: number;
+  bossActive: boolean;
+  streak: number;
+  speedMultiplier: number;
+  baseSpawnInterval: number;
+  nextSpawnDelay: number;
+  spawnTimer: number;
+  shotCooldown: number;
+  partnerShotCooldown: number;
+  isTutorial: boolean;   // Freezes spawning and target movement
+  isEnding: boolean;     // Mismatch happened, waiting out the death animation
+  endingTimer: number;
+  isGameOver: boolean;
+  time: number;          // Gameplay time in ms (drives sine waves)
+  timeRemaining: number; // Time Attack clock in ms
+  lives: number;         // Lives ruleset hearts left
+  shotsLanded: number;   // Shots that hit a matching target, armor hits included (practice accuracy)
+  waveIndex: number;     // Campaign: next wave of the stage to spawn
+  runCleared: boolean;   // Campaign stage goal met, or every Boss Rush boss beaten
+  bossSplits: number[];  // Boss Rush: run time (ms) at each boss kill
+  breatherTimer: number; // Boss Rush: ms until the next boss arrives
+  invulnerableTimer: number; // ms of mismatch immunity left after losing a life
+  ammo: number;          // Ammo ruleset: rounds left in the magazine
+  reloadTimer: number;   // Ammo ruleset: ms until an emptied magazine is full again
+  powerUpTimer: number;  // ms until the next power-up floats in
+  slowMoTimer: number;   // ms left on each timed power-up
+  multishotTimer: number;
+  rainbowTimer: number;
+  hasShield: boolean;    // Shield power-up: the next wrong color is forgiven
+  tick: number;          // Fixed simulation steps taken so far
+  accumulator: number;   // Real time not yet simulated, less than one tick
+  lastScoreMilestone: number;
+  nextId: number;
+  stats: GameStats;      // Session stats for this run
+}
+
+// player: co-op shooter the input belongs to (0 left, 1 right); always 0 outside co-op
+export type EngineInput =
+  | { type: 'SHOOT'; x: number; y: number; player?: number }
+  | { type: 'SELECT_COLOR'; color: ColorType; player?: number }
+  | { type: 'SWAP' } // Color queue: exchange the loaded color with the held one
+  | { type: 'RESIZE'; width: number; height: number };
+
+export type EngineEvent =
+  | { type: 'SOUND'; sound: SoundEffect }
+  | { type: 'SHAKE'; duration: number }
+  | { type: 'SHOT'; x: number; y: number }
+  | { type: 'TIME_CHANGE'; amount: number } // Time Attack clock bonus (+) or penalty (-), in ms
+  | { type: 'LIFE_CHANGE'; lives: number; amount: number } // Lives ruleset: heart lost (-1) or gained (+1)
+  | { type: 'GARBAGE'; count: number } // Versus: targets to send to the other player's side
+  | { type: 'SCORE_PENALTY'; amount: number } // Color queue: points lost for a shot that hit nothing
+  | { type: 'AMMO_PENALTY'; amount: number } // Ammo: rounds lost for a shot that hit nothing
+  | { type: 'SHIELD_BREAK' } // Shield power-up: used up soaking a wrong color
+  // color is omitted when the view should pick a neutral/theme color
+  | { type: 'PARTICLES'; x: number; y: number; effect: TargetType | 'MISS' | 'PICKUP'; color?: ColorType; accuracy?: number; kind?: PickupKind }
+  | { type: 'GAME_OVER'; score: number; stats: GameStats; seed: number; cleared: boolean; bossSplits: number[] }; // cleared: stage won / Boss Rush finished
+
+// Replays: everything needed to re-simulate a run with the engine
+export type ReplayInput = EngineInput & { t: number }; // Tick the input was applied before
+
+export interface Replay {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  config: RunConfig;
+  score: number;
+  recordedAt: number;    // Unix ms
+  ticks: number;         // Length of the run in simulation ticks
+  inputs: ReplayInput[];
+}
+
+// A run in progress, saved periodically so it survives reloads
+export interface RunSnapshot {
+  version: number;
+  savedAt: number;       // Unix ms
+  engine: EngineState;
+  replay: string | null; // Recording so far, in the compact export format
+  dailyKey: string | null;
+}
+
+export type SoundEffect = 'score' | 'gameover' | 'rotate' | 'heavy' | 'pop' | 'whir' | 'shoot' | 'achievement' | 'levelUp' | 'streak' | 'ui' | 'timeBonus' | 'reload' | 'slowMo' | 'multishot' | 'rainbow' | 'shield' | 'shieldBreak' | 'explosion' | 'ricochet';
+
 // Achievement System Types
 
 export interface GameStats {
@@ -117,12 +316,63 @@ export interface GameStats {
   stationaryKills: number;
   colorShiftKills: number;
   sineWaveKills: number;
+  mirrorKills: number;
+  ghostKills: number;
+  clusterKills: number;    // Cores cleared
   bossKills: number;
 
+  // Bombs
+  bombKills: number;
+  bombChainKills: number;   // Targets caught in a blast rather than shot
+  longestBombChain: number;
+
   // Progression
   highestLevel: number;
   hardModeGames: number;
+
+  // Lives ruleset, kept apart from the classic numbers above
+  livesGames: number;
+  livesHighScore: number;
+  livesLost: number;
+
+  // Ammo ruleset
+  ammoGames: number;
+  ammoShotsFired: number;
+  ammoShotsLanded: number; // Shots that hit a matching target, armor hits included
+  reloads: number;
+
+  // Power-ups collected
+  slowMoPickups: number;
+  multishotPickups: number;
+  rainbowPickups: number;
+  shieldPickups: number;
+}
+
+// Daily Challenge results, keyed by UTC date (YYYY-MM-DD)
+export interface DailyResult {
+  bestScore: number;
+  attempts: number;
+}
+
+export type DailyHistory = Record<string, DailyResult>;
+
+// Campaign results per stage id
+export interface StageProgress {
+  cleared: boolean;
+  stars: number;
+  bestScore: number;
+}
+export type CampaignProgress = Record<string, StageProgress>;
+
+// Best Time Attack score per `${seconds}-${difficulty}`
+export type TimeAttackBests = Record<string, number>;
+
+// Boss Rush records per difficulty
+export interface BossRushRecord {
+  fastestClear: number | null; // Run time (ms) of the quickest full clear, if there has been one
+  mostBosses: number;
 }
+export type BossRushRecords = Partial<Record<Difficulty, BossRushRecord>>;
 
 export interface Achievement {
   id: string;
@@ -150,6 +400,8 @@ export interface TelegramWebApp {
   platform: string;
   version: string;
   isVersionAtLeast: (version: string) => boolean;
+  onEvent: (eventType: string, callback: () => void) => void;
+  offEvent: (eventType: string, callback: () => void) => void;
   
   BackButton: {
       isVisible: boolean;
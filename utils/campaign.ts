@@ -0,0 +1,100 @@
+import { CampaignProgress, ColorType, Stage, StageGoal, StageTarget, StageWave, TargetShape, TargetType } from '../types';
+import campaignData from '../campaign.json';
+
+// Authored stages. campaign.json (and anything imported from outside, like replays)
+// goes through parseStage, so the engine only ever sees well-formed stages.
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  Object.values(values).includes(value as T);
+
+const parseTarget = (data: unknown): StageTarget | null => {
+  if (!isObject(data)) return null;
+  const { type, color, shape, x, y, vx, vy, health } = data;
+  if (!isOneOf(TargetType, type) || !isOneOf(ColorType, color) || !isOneOf(TargetShape, shape)) return null;
+  if (!isNumber(x) || !isNumber(y) || !isNumber(vx) || !isNumber(vy)) return null;
+
+  const target: StageTarget = { type, color, shape, x, y, vx, vy };
+  if (health !== undefined) {
+    if (!isNumber(health) || health < 1) return null;
+    target.health = health;
+  }
+  return target;
+};
+
+const parseWave = (data: unknown): StageWave | null => {
+  if (!isObject(data) || !isNumber(data.at) || data.at < 0 || !Array.isArray(data.targets)) return null;
+  const targets = data.targets.map(parseTarget);
+  if (targets.some(t => t === null)) return null;
+  return { at: data.at, targets: targets as StageTarget[] };
+};
+
+const parseGoal = (data: unknown): StageGoal | null => {
+  if (!isObject(data)) return null;
+  if (data.type === 'CLEAR_ALL') return { type: 'CLEAR_ALL' };
+  if (data.type === 'SURVIVE' && isNumber(data.seconds) && data.seconds > 0) return { type: 'SURVIVE', seconds: data.seconds };
+  return null;
+};
+
+// Returns null for anything that isn't a complete, valid stage
+export const parseStage = (data: unknown): Stage | null => {
+  if (!isObject(data) || typeof data.id !== 'string' || typeof data.name !== 'string') return null;
+  const goal = parseGoal(data.goal);
+  if (!goal) return null;
+  if (!Array.isArray(data.stars) || data.stars.length !== 3 || !data.stars.every(isNumber)) return null;
+  if (!Array.isArray(data.waves)) return null;
+
+  const waves = data.waves.map(parseWave);
+  if (waves.some(w => w === null)) return null;
+
+  return {
+    id: data.id,
+    name: data.name,
+    goal,
+    stars: [data.stars[0], data.stars[1], data.stars[2]],
+    // The engine spawns waves in order, so they're kept sorted by start time
+    waves: (waves as StageWave[]).sort((a, b) => a.at - b.at)
+  };
+};
+
+// Stages built in the wave editor use this id, so they never touch campaign progress
+export const CUSTOM_STAGE_ID = 'custom';
+
+export const createBlankStage = (): Stage => ({
+  id: CUSTOM_STAGE_ID,
+  name: 'My Stage',
+  goal: { type: 'CLEAR_ALL' },
+  stars: [0, 100, 200],
+  waves: [{ at: 0, targets: [] }]
+});
+
+// Editor export format: the stage itself, readable enough to tweak by hand
+export const encodeStage = (stage: Stage): string => JSON.stringify(stage, null, 2);
+
+// Imported stages always become custom ones, whatever id the file had
+export const decodeStage = (text: string): Stage | null => {
+  try {
+    const stage = parseStage(JSON.parse(text));
+    return stage && { ...stage, id: CUSTOM_STAGE_ID };
+  } catch (e) {
+    return null;
+  }
+};
+
+export const CAMPAIGN: Stage[] = campaignData.stages
+  .map(parseStage)
+  .filter((s): s is Stage => s !== null);
+
+export const isCampaignStage = (stage: Stage) => CAMPAIGN.some(s => s.id === stage.id);
+
+// Stars are only earned by clearing the stage; each threshold the score reaches adds one
+export const getStageStars = (stage: Stage, score: number, cleared: boolean) =>
+  cleared ? stage.stars.filter(threshold => score >= threshold).length : 0;
+
+// Stages open up one at a time as the previous one is cleared
+export const isStageUnlocked = (index: number, progress: CampaignProgress) =>
+  index === 0 || !!progress[CAMPAIGN[index - 1]?.id]?.cleared;
+
+export const describeGoal = (goal: StageGoal) =>
+  goal.type === 'SURVIVE' ? `Survive ${goal.seconds}s` : 'Clear every target';
@@ -0,0 +1,374 @@
+import { Particle, Pickup, Projectile, Target, TargetShape, TargetType, Theme } from '../types';
+import { CLUSTER, COLORS, COLOR_KEYS, MIRROR, PICKUP_STYLES } from '../constants';
+import { getGhostOpacity } from './engine';
+
+// Canvas 2D renderer. Draws the same scene as components/DomScene.tsx
+// straight into a <canvas> every frame, so React only has to render the HUD.
+
+export interface CanvasScene {
+  width: number;        // Playfield size in CSS pixels
+  height: number;
+  targets: Target[];
+  projectiles: Projectile[];
+  pickups: Pickup[];
+  particles: Particle[];
+  time: number;         // Engine gameplay time, drives the sine wave pulse
+  now: number;          // Wall clock in ms for decorative pings and pulses
+  theme: Theme;
+}
+
+// Polygons in the same 100x100 viewBox the DOM renderer's SVGs use
+const TRIANGLE_POINTS = [50, 10, 90, 85, 10, 85];
+const STAR_POINTS = [50, 5, 61, 35, 95, 35, 68, 57, 79, 91, 50, 70, 21, 91, 32, 57, 5, 35, 39, 35];
+
+const DEG_TO_RAD = Math.PI / 180;
+
+// Appends an alpha byte to a #rrggbb color, like the `${color}60` strings in the DOM renderer
+const withAlpha = (hex: string, alpha: number) => hex + Math.round(alpha * 255).toString(16).padStart(2, '0');
+
+// Tailwind's animate-ping (grow and fade over 1s) and animate-pulse (dim to 50% over 2s)
+const pingPhase = (now: number) => (now % 1000) / 1000;
+const pulseAlpha = (now: number) => 0.75 + 0.25 * Math.cos((now / 2000) * Math.PI * 2);
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: number[], radius: number) => {
+  const scale = (radius * 2) / 100;
+  ctx.beginPath();
+  for (let i = 0; i < points.length; i += 2) {
+    const x = points[i] * scale - radius;
+    const y = points[i + 1] * scale - radius;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, target: Target, theme: Theme, now: number) => {
+  const r = target.radius;
+  // Mirrors are silver all round; their colored face is drawn with the markings
+  const color = target.type === TargetType.MIRROR ? MIRROR.RIM_COLOR : COLORS[target.color];
+  const fill = theme === 'dark' ? 'rgba(255,255,255,0.05)' : 'rgba(255,255,255,0.5)';
+
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = fill;
+
+  switch (target.shape) {
+    case TargetShape.CIRCLE:
+      ctx.lineWidth = 4;
+      ctx.shadowColor = withAlpha(color, theme === 'dark' ? 0.38 : 0.25);
+      ctx.shadowBlur = theme === 'dark' ? 20 : 10;
+      ctx.shadowOffsetY = theme === 'dark' ? 0 : 4;
+      ctx.beginPath();
+      ctx.arc(0, 0, r - 2, 0, Math.PI * 2);
+      break;
+    case TargetShape.SQUARE:
+      ctx.lineWidth = 4;
+      ctx.shadowColor = withAlpha(color, 0.25);
+      ctx.shadowBlur = 15;
+      ctx.beginPath();
+      ctx.roundRect(-r + 2, -r + 2, r * 2 - 4, r * 2 - 4, 6);
+      break;
+    case TargetShape.DIAMOND: {
+      const half = r * 0.8;
+      ctx.rotate(45 * DEG_TO_RAD);
+      ctx.lineWidth = 4;
+      ctx.shadowColor = withAlpha(color, 0.25);
+      ctx.shadowBlur = 15;
+      ctx.beginPath();
+      ctx.roundRect(-half + 2, -half + 2, half * 2 - 4, half * 2 - 4, 6);
+      break;
+    }
+    case TargetShape.TRIANGLE:
+      ctx.lineWidth = 5 * (r * 2) / 100;
+      ctx.shadowColor = withAlpha(color, 0.5);
+      ctx.shadowBlur = 8;
+      tracePolygon(ctx, TRIANGLE_POINTS, r);
+      break;
+    case TargetShape.STAR:
+      ctx.globalAlpha = pulseAlpha(now);
+      ctx.lineWidth = 4 * (r * 2) / 100;
+      ctx.fillStyle = theme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.6)';
+      ctx.shadowColor = color;
+      ctx.shadowBlur = 15;
+      tracePolygon(ctx, STAR_POINTS, r);
+      break;
+  }
+
+  ctx.fill();
+  ctx.stroke();
+};
+
+// Type specific markings, drawn in the target's rotated frame
+const drawMarkings = (ctx: CanvasRenderingContext2D, target: Target, now: number) => {
+  const r = target.radius;
+
+  if (target.type === TargetType.SPLIT) {
+    const phase = pingPhase(now);
+    ctx.globalAlpha = 0.5 * (1 - phase);
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.2 * (1 + phase), 0, Math.PI * 2);
+    ctx.fill();
+  } else if (target.type === TargetType.TOUGH && target.health >= 2) {
+    ctx.globalAlpha = 0.6;
+    ctx.strokeStyle = COLORS[target.color];
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.6 - 1, 0, Math.PI * 2);
+    ctx.stroke();
+  } else if (target.type === TargetType.BOMB) {
+    // Solid core with a fuse ring pulsing out from it
+    const phase = pingPhase(now);
+    ctx.fillStyle = COLORS[target.color];
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 0.7 * (1 - phase);
+    ctx.strokeStyle = COLORS[target.color];
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.3 * (1 + phase * 1.5), 0, Math.PI * 2);
+    ctx.stroke();
+  } else if (target.type === TargetType.MIRROR) {
+    // Colored core face pointing along the rotation, facet joints around the rest of the rim
+    const half = MIRROR.CORE_ARC / 2;
+    const step = (Math.PI * 2 - MIRROR.CORE_ARC) / MIRROR.FACETS;
+    ctx.globalAlpha = 0.3;
+    ctx.fillStyle = COLORS[target.color];
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.arc(0, 0, r - 2, -half, half);
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = COLORS[target.color];
+    ctx.lineWidth = 6;
+    ctx.beginPath();
+    ctx.arc(0, 0, r - 2, -half, half);
+    ctx.stroke();
+    ctx.strokeStyle = MIRROR.RIM_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let i = 1; i < MIRROR.FACETS; i++) {
+      const angle = half + i * step;
+      ctx.moveTo(Math.cos(angle) * (r - 8), Math.sin(angle) * (r - 8));
+      ctx.lineTo(Math.cos(angle) * (r + 2), Math.sin(angle) * (r + 2));
+    }
+    ctx.stroke();
+  } else if (target.type === TargetType.CLUSTER) {
+    if (target.shielded) {
+      // Sealed until the satellites are gone
+      ctx.globalAlpha = 0.5;
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(0, 0, r * 0.55, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      const phase = pingPhase(now);
+      ctx.globalAlpha = 0.6 * (1 - phase);
+      ctx.fillStyle = COLORS[target.color];
+      ctx.beginPath();
+      ctx.arc(0, 0, r * 0.4 * (1 + phase), 0, Math.PI * 2);
+      ctx.fill();
+    }
+  } else if (target.type === TargetType.GHOST) {
+    ctx.globalAlpha *= 0.7;
+    ctx.strokeStyle = COLORS[target.color];
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.6, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  } else if (target.type === TargetType.BOSS) {
+    const phase = pingPhase(now);
+    ctx.globalAlpha = 0.2 * (1 - phase);
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.4 * (1 + phase), 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const drawBossHealth = (ctx: CanvasRenderingContext2D, target: Target) => {
+  if (!target.maxHealth) return;
+  const isLow = target.health < target.maxHealth * 0.4;
+  const width = 96;
+  const top = -target.radius - 40;
+
+  ctx.fillStyle = 'rgba(0,0,0,0.5)';
+  ctx.beginPath();
+  ctx.roundRect(-width / 2, top, width, 8, 4);
+  ctx.fill();
+
+  ctx.fillStyle = isLow ? '#dc2626' : '#ef4444';
+  ctx.beginPath();
+  ctx.roundRect(-width / 2, top, width * Math.max(0, target.health / target.maxHealth), 8, 4);
+  ctx.fill();
+
+  ctx.strokeStyle = isLow ? '#ef4444' : 'rgba(255,255,255,0.2)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.roundRect(-width / 2, top, width, 8, 4);
+  ctx.stroke();
+};
+
+// Small arrow just outside the target showing where it's heading
+const drawHeading = (ctx: CanvasRenderingContext2D, target: Target, theme: Theme) => {
+  const r = target.radius;
+  ctx.rotate(Math.atan2(target.vy, target.vx));
+  ctx.fillStyle = theme === 'dark' ? 'rgba(255,255,255,0.5)' : 'rgba(30,41,59,0.5)';
+  ctx.beginPath();
+  ctx.moveTo(r + 4, -5);
+  ctx.lineTo(r + 12, 0);
+  ctx.lineTo(r + 4, 5);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawTarget = (ctx: CanvasRenderingContext2D, target: Target, scene: CanvasScene) => {
+  let scale = 1;
+  if (target.type === TargetType.SINE_WAVE) {
+    scale = 1 + 0.1 * Math.abs(Math.sin((scene.time + (target.timeOffset || 0)) * 0.004));
+  }
+
+  ctx.save();
+  ctx.translate(target.x, target.y);
+  ctx.scale(scale, scale);
+  ctx.globalAlpha = getGhostOpacity(target);
+
+  if (target.type === TargetType.BOSS) drawBossHealth(ctx, target);
+  if (target.shielded) {
+    // Faint orbit path so the satellites read as one cluster
+    ctx.save();
+    ctx.globalAlpha *= 0.2;
+    ctx.strokeStyle = scene.theme === 'dark' ? '#ffffff' : '#1e293b';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 6]);
+    ctx.beginPath();
+    ctx.arc(0, 0, CLUSTER.ORBIT_RADIUS, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  ctx.save();
+  ctx.rotate(target.rotation * DEG_TO_RAD);
+  ctx.save();
+  drawShape(ctx, target, scene.theme, scene.now);
+  ctx.restore();
+  drawMarkings(ctx, target, scene.now);
+  ctx.restore();
+
+  if (target.type !== TargetType.STATIONARY && target.type !== TargetType.BOSS && target.type !== TargetType.SATELLITE) {
+    drawHeading(ctx, target, scene.theme);
+  }
+
+  ctx.restore();
+};
+
+// Rainbow shots cycle through every color they can match
+const drawProjectile = (ctx: CanvasRenderingContext2D, proj: Projectile, now: number) => {
+  const color = proj.rainbow ? COLORS[COLOR_KEYS[Math.floor(now / 100) % COLOR_KEYS.length]] : COLORS[proj.color];
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 15;
+  ctx.beginPath();
+  ctx.arc(proj.x, proj.y, proj.radius, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+// Glowing orb with its bonus written on it; blinks out over its last second
+const drawPickup = (ctx: CanvasRenderingContext2D, pickup: Pickup, now: number) => {
+  const { color, label } = PICKUP_STYLES[pickup.kind];
+  const fading = pickup.life < 1000;
+  ctx.globalAlpha = fading && Math.floor(now / 100) % 2 === 0 ? 0.4 : 1;
+
+  ctx.fillStyle = withAlpha(color, 0.2);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 15;
+  ctx.beginPath();
+  ctx.arc(pickup.x, pickup.y, pickup.radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = color;
+  ctx.font = 'bold 11px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, pickup.x, pickup.y);
+};
+
+const drawParticle = (ctx: CanvasRenderingContext2D, p: Particle) => {
+  const life = Math.max(0, Math.min(1, p.life));
+
+  if (p.type === 'RING') {
+    ctx.globalAlpha = life;
+    ctx.strokeStyle = p.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, p.size / 2, 0, Math.PI * 2);
+    ctx.stroke();
+    return;
+  }
+
+  // Same as the DOM renderer: the particle shrinks with its remaining life
+  const size = p.size * life;
+  ctx.globalAlpha = p.type === 'TRAIL' ? life * 0.5 : life;
+  ctx.fillStyle = p.color;
+
+  if (p.type === 'DEBRIS') {
+    ctx.save();
+    ctx.translate(p.x, p.y);
+    ctx.rotate((p.rotation || 0) * DEG_TO_RAD);
+    ctx.fillRect(-size / 2, -size / 2, size, size);
+    ctx.restore();
+  } else {
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, size / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+export const drawScene = (canvas: HTMLCanvasElement, scene: CanvasScene) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  // Match the backing store to the display so lines stay crisp on high-DPI phones
+  const dpr = window.devicePixelRatio || 1;
+  const pixelWidth = Math.round(scene.width * dpr);
+  const pixelHeight = Math.round(scene.height * dpr);
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  // Bosses sit above regular targets
+  for (const target of scene.targets) {
+    if (target.type !== TargetType.BOSS) drawTarget(ctx, target, scene);
+  }
+  for (const target of scene.targets) {
+    if (target.type === TargetType.BOSS) drawTarget(ctx, target, scene);
+  }
+
+  ctx.save();
+  for (const pickup of scene.pickups) drawPickup(ctx, pickup, scene.now);
+  ctx.restore();
+
+  // Additive blending stands in for the DOM renderer's per-particle glow on dark backgrounds
+  ctx.save();
+  if (scene.theme === 'dark') ctx.globalCompositeOperation = 'lighter';
+  for (const p of scene.particles) drawParticle(ctx, p);
+  ctx.restore();
+
+  ctx.save();
+  for (const proj of scene.projectiles) drawProjectile(ctx, proj, scene.now);
+  ctx.restore();
+};
@@ -0,0 +1,28 @@
+import { DailyHistory } from '../types';
+import { seedFromString } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days roll over at UTC midnight so every player shares the same challenge
+export const getDailyKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+export const getDailySeed = (dayKey: string): number => seedFromString(`chroma-shot-daily-${dayKey}`);
+
+const shiftDay = (dayKey: string, days: number): string =>
+  getDailyKey(new Date(Date.parse(`${dayKey}T00:00:00Z`) + days * DAY_MS));
+
+// Most recent days first, starting with `today`
+export const getRecentDays = (count: number, today: string = getDailyKey()): string[] =>
+  Array.from({ length: count }, (_, i) => shiftDay(today, -i));
+
+// Consecutive days played. A streak stays alive until today is over, so it
+// counts back from yesterday when today's challenge hasn't been played yet.
+export const getDailyStreak = (history: DailyHistory, today: string = getDailyKey()): number => {
+  let day = history[today] ? today : shiftDay(today, -1);
+  let streak = 0;
+  while (history[day]) {
+    streak++;
+    day = shiftDay(day, -1);
+  }
+  return streak;
+};
@@ -0,0 +1,1536 @@
+import { ColorType, Difficulty, EngineEvent, EngineInput, EngineState, GameMode, GameStats, Pickup, Projectile, RunConfig, SoundEffect, StageTarget, Target, TargetShape, TargetType } from '../types';
+import { AMMO_CONFIG, BOMB, BOSS_RUSH, CLASSIC_CONFIG, CLUSTER, COLOR_KEYS, COLOR_QUEUE, COOP, DIFFICULTY_SETTINGS, GAME_CONFIG, GHOST, INITIAL_STATS, LIVES_CONFIG, MIRROR, POWER_UP_KINDS, POWER_UPS, TARGET_SCORES, TIME_ATTACK, VERSUS } from '../constants';
+import { createSeed, nextRandom, randomItem } from './random';
+import { SpatialHash, createSpatialHash, insertBox, queryBox } from './spatialHash';
+
+// Headless game simulation. No React, DOM, audio or timers in here:
+// the view feeds inputs in, renders the state and reacts to the emitted events.
+// All gameplay randomness goes through the seeded generator in ./random.
+
+// Gameplay runs in fixed 60Hz ticks whatever the display refresh rate;
+// the view interpolates between the last two ticks when drawing.
+export const TICK_MS = 1000 / 60;
+const MAX_FRAME_TIME = 250; // Longer stalls (tab switch, debugger) are dropped rather than simulated
+const SHOT_COOLDOWN = 150;  // ms
+const ENDING_DELAY = 1000;  // ms between a mismatch and GAME_OVER
+const TARGET_CAP = 24;      // Absolute max targets regardless of difficulty
+const PICKUP_CAP = 3;
+
+// Broadphase. Shots are tested against each target's swept box for the tick, so that grid
+// doesn't depend on any speed. Target pairs are found from positions when the grid was built;
+// the margin is slack for position correction pushing targets around during a pass, and the
+// pass rebuilds the grid whenever a target uses up half of it, so the grid never misses a
+// pair the full pair loop would have resolved.
+const GRID_CELL_SIZE = 128;
+const BROADPHASE_MARGIN = 64;
+
+export const createSessionStats = (difficulty: Difficulty, config: RunConfig = CLASSIC_CONFIG): GameStats => ({
+  ...INITIAL_STATS,
+  gamesPlayed: 1,
+  hardModeGames: difficulty === Difficulty.HARD ? 1 : 0,
+  livesGames: config.mode === GameMode.LIVES ? 1 : 0,
+  ammoGames: config.mode === GameMode.AMMO ? 1 : 0
+});
+
+export const createEngineState = (difficulty: Difficulty, seed: number = createSeed(), config: RunConfig = CLASSIC_CONFIG): EngineState => {
+  const diffSettings = DIFFICULTY_SETTINGS[difficulty];
+  // A practice boss drill starts at the chosen level, tuned as if the earlier bosses had been beaten
+  const isBossDrill = config.mode === GameMode.PRACTICE && config.bossLevel !== undefined;
+  const level = isBossDrill ? Math.max(1, config.bossLevel!) : 1;
+  const baseSpawnInterval = Math.max(300, GAME_CONFIG.SPAWN_INTERVAL_START * diffSettings.spawnIntervalMultiplier - (level - 1) * 50);
+
+  const projectilePool: Projectile[] = [];
+  for (let i = 0; i < 50; i++) {
+    projectilePool.push({
+      id: `pool-${i}`,
+      x: 0, y: 0, vx: 0, vy: 0,
+      color: ColorType.RED,
+      radius: GAME_CONFIG.PROJECTILE_RADIUS,
+      active: false,
+      bounces: 0
+    });
+  }
+
+  const state: EngineState = {
+    difficulty,
+    config,
+    seed,
+    rngState: seed,
+    dimensions: { width: 0, height: 0 },
+    projectilePool,
+    targets: [],
+    pickups: [],
+    currentColor: ColorType.RED,
+    partnerColor: ColorType.BLUE,
+    colorQueue: [],
+    heldColor: null,
+    score: 0,
+    level,
+    scoreSinceLastBoss: isBossDrill ? getLevelThreshold(level) + 1 : 0, // Past the threshold, so the boss arrives straight away
+    bossActive: false,
+    streak: 0,
+    speedMultiplier: 1 + (level - 1) * 0.2,
+    baseSpawnInterval,
+    nextSpawnDelay: 0,
+    spawnTimer: baseSpawnInterval + 100, // First target spawns immediately
+    shotCooldown: 0,
+    partnerShotCooldown: 0,
+    isTutorial: false,
+    isEnding: false,
+    endingTimer: 0,
+    isGameOver: false,
+    time: 0,
+    timeRemaining: config.mode === GameMode.TIME_ATTACK ? (config.timeLimit ?? TIME_ATTACK.DURATIONS[0]) * 1000 : 0,
+    lives: config.mode === GameMode.LIVES ? LIVES_CONFIG.START : 0,
+    shotsLanded: 0,
+    waveIndex: 0,
+    runCleared: false,
+    bossSplits: [],
+    breatherTimer: config.mode === GameMode.BOSS_RUSH ? BOSS_RUSH.BREATHER : 0,
+    invulnerableTimer: 0,
+    ammo: config.mode === GameMode.AMMO ? AMMO_CONFIG.MAGAZINE : 0,
+    reloadTimer: 0,
+    powerUpTimer: POWER_UPS.SPAWN_INTERVAL,
+    slowMoTimer: 0,
+    multishotTimer: 0,
+    rainbowTimer: 0,
+    hasShield: false,
+    tick: 0,
+    accumulator: 0,
+    lastScoreMilestone: 0,
+    nextId: 0,
+    stats: createSessionStats(difficulty, config)
+  };
+
+  if (config.mode === GameMode.QUEUE) {
+    state.currentColor = randomItem(state, COLOR_KEYS);
+    while (state.colorQueue.length < COLOR_QUEUE.LENGTH) state.colorQueue.push(drawQueueColor(state));
+  }
+  return state;
+};
+
+const nextId = (state: EngineState, prefix: string) => `${prefix}-${state.nextId++}`;
+
+// Co-op has a shooter towards each side; every other mode has one in the middle
+export const getShooterPosition = (state: EngineState, player: number = 0) => {
+  const { width, height } = state.dimensions;
+  const offset = state.config.mode === GameMode.COOP ? COOP.SHOOTER_OFFSET : 0.5;
+  return {
+    x: player === 1 ? width * (1 - offset) : width * offset,
+    y: height - GAME_CONFIG.CONTROLS_HEIGHT - 20
+  };
+};
+
+export const getLevelThreshold = (level: number) => GAME_CONFIG.POINTS_PER_LEVEL + (level * 100);
+
+// 0 to 100
+export const getLevelProgress = (state: EngineState) =>
+  Math.min(100, (state.scoreSinceLastBoss / getLevelThreshold(state.level)) * 100);
+
+export const getStreakMultiplier = (streak: number) => {
+  if (streak > 20) return 3;
+  if (streak > 10) return 2;
+  if (streak > 5) return 1.5;
+  return 1;
+};
+
+// Places the stationary practice target used by the tutorial
+export const spawnTutorialTarget = (state: EngineState, color: ColorType) => {
+  state.targets.push({
+    id: 'tutorial-target',
+    x: state.dimensions.width / 2,
+    y: state.dimensions.height / 3,
+    vx: 0, vy: 0,
+    color,
+    radius: GAME_CONFIG.TARGET_RADIUS,
+    rotation: 0, rotationSpeed: 1.5,
+    type: TargetType.STATIONARY,
+    shape: TargetShape.CIRCLE,
+    health: 1
+  });
+};
+
+// Versus: armored squares dropped in at the top of this side, sent by the other player
+export const receiveGarbage = (state: EngineState, count: number) => {
+  const { width } = state.dimensions;
+  const radius = GAME_CONFIG.TARGET_RADIUS;
+  if (width === 0) return;
+
+  for (let i = 0; i < count; i++) {
+      state.targets.push({
+          id: nextId(state, 'garbage'),
+          x: radius + nextRandom(state) * (width - radius * 2),
+          y: radius,
+          vx: (nextRandom(state) - 0.5) * 2,
+          vy: 0.8 + nextRandom(state) * 0.8,
+          color: randomItem(state, COLOR_KEYS),
+          radius,
+          rotation: 0,
+          rotationSpeed: (nextRandom(state) - 0.5) * 2,
+          type: TargetType.TOUGH,
+          shape: TargetShape.SQUARE,
+          health: VERSUS.GARBAGE_HEALTH
+      });
+  }
+};
+
+// --- Color queue ---
+// The player can't pick colors: each shot loads the next one from the queue.
+
+// Mostly colors already on the field, so there is usually something to aim the loaded color at
+const drawQueueColor = (state: EngineState) => {
+  if (state.targets.length > 0 && nextRandom(state) < COLOR_QUEUE.FIELD_BIAS) return randomItem(state, state.targets).color;
+  return randomItem(state, COLOR_KEYS);
+};
+
+const loadNextColor = (state: EngineState) => {
+  state.currentColor = state.colorQueue.shift() ?? randomItem(state, COLOR_KEYS);
+  state.colorQueue.push(drawQueueColor(state));
+};
+
+// The first swap puts the loaded color on hold and loads the next one; later swaps exchange the two
+const swapHeldColor = (state: EngineState) => {
+  if (state.isEnding || state.isGameOver) return;
+  const loaded = state.currentColor;
+  if (state.heldColor === null) loadNextColor(state);
+  else state.currentColor = state.heldColor;
+  state.heldColor = loaded;
+};
+
+const getAimAssistVector = (
+  startX: number,
+  startY: number,
+  baseVx: number,
+  baseVy: number,
+  targets: Target[],
+  color: ColorType
+): { vx: number, vy: number, assisted: boolean } => {
+  const ASSIST_CONE_ANGLE = 15 * (Math.PI / 180);
+  const ASSIST_STRENGTH = 0.3;
+
+  let bestTarget: Target | null = null;
+  let minAngleDiff = Infinity;
+  let perfectVx = 0;
+  let perfectVy = 0;
+
+  const baseAngle = Math.atan2(baseVy, baseVx);
+  const speed = Math.sqrt(baseVx*baseVx + baseVy*baseVy);
+
+  if (speed < 0.1) return { vx: baseVx, vy: baseVy, assisted: false };
+
+  for (const t of targets) {
+    // Only assist towards matching colors, and never towards a ghost a shot would pass through
+    // or a core its satellites still cover
+    if (t.color !== color || t.phased || t.shielded) continue;
+
+    const dx = t.x - startX;
+    const dy = t.y - startY;
+    const dist = Math.sqrt(dx*dx + dy*dy);
+
+    if (dist <= 0.1) continue; // Prevent division by zero
+
+    const angleToTarget = Math.atan2(dy, dx);
+
+    let angleDiff = Math.abs(angleToTarget - baseAngle);
+    if (angleDiff > Math.PI) angleDiff = 2 * Math.PI - angleDiff;
+
+    if (angleDiff < ASSIST_CONE_ANGLE && angleDiff < minAngleDiff) {
+      minAngleDiff = angleDiff;
+      bestTarget = t;
+      perfectVx = (dx / dist) * speed;
+      perfectVy = (dy / dist) * speed;
+    }
+  }
+
+  if (bestTarget) {
+    const newVx = baseVx + (perfectVx - baseVx) * ASSIST_STRENGTH;
+    const newVy = baseVy + (perfectVy - baseVy) * ASSIST_STRENGTH;
+    const newSpeed = Math.sqrt(newVx*newVx + newVy*newVy);
+
+    if (newSpeed > 0) {
+        return {
+          vx: (newVx / newSpeed) * speed,
+          vy: (newVy / newSpeed) * speed,
+          assisted: true
+        };
+    }
+  }
+
+  return { vx: baseVx, vy: baseVy, assisted: false };
+};
+
+// --- Ammo ruleset ---
+
+const startReload = (state: EngineState, events: EngineEvent[]) => {
+  state.ammo = 0;
+  state.reloadTimer = AMMO_CONFIG.RELOAD_TIME;
+  state.stats.reloads++;
+  events.push({ type: 'SOUND', sound: 'reload' });
+};
+
+const spendAmmo = (state: EngineState, rounds: number, events: EngineEvent[]) => {
+  if (state.reloadTimer > 0) return;
+  state.ammo = Math.max(0, state.ammo - rounds);
+  if (state.ammo === 0) startReload(state, events);
+};
+
+const updateReload = (state: EngineState) => {
+  if (state.reloadTimer <= 0) return;
+  state.reloadTimer = Math.max(0, state.reloadTimer - TICK_MS);
+  if (state.reloadTimer === 0) state.ammo = AMMO_CONFIG.MAGAZINE;
+};
+
+const launchProjectile = (state: EngineState, x: number, y: number, vx: number, vy: number, color: ColorType) => {
+  const pool = state.projectilePool;
+  let projectile = pool.find(p => !p.active);
+
+  if (!projectile) {
+    projectile = {
+      id: `pool-extra-${pool.length}`,
+      x: 0, y: 0, vx: 0, vy: 0,
+      color: ColorType.RED,
+      radius: GAME_CONFIG.PROJECTILE_RADIUS,
+      active: false,
+      bounces: 0
+    };
+    pool.push(projectile);
+  }
+
+  projectile.x = x;
+  projectile.y = y;
+  projectile.prevX = x;
+  projectile.prevY = y;
+  projectile.vx = vx;
+  projectile.vy = vy;
+  projectile.color = color;
+  projectile.rainbow = state.rainbowTimer > 0;
+  projectile.bounces = 0;
+  projectile.active = true;
+  projectile.id = nextId(state, 'shot');
+};
+
+const shoot = (state: EngineState, targetX: number, targetY: number, player: number, events: EngineEvent[]) => {
+  const isPartner = player === 1 && state.config.mode === GameMode.COOP;
+  const hasAmmo = state.config.mode === GameMode.AMMO;
+  if ((isPartner ? state.partnerShotCooldown : state.shotCooldown) > 0) return;
+  if (state.isGameOver || state.isEnding) return;
+  if (hasAmmo && (state.ammo <= 0 || state.reloadTimer > 0)) return;
+
+  const { width, height } = state.dimensions;
+  if (width === 0 || height === 0) return;
+  if (targetY > height - GAME_CONFIG.CONTROLS_HEIGHT) return;
+
+  const { x: shooterX, y: shooterY } = getShooterPosition(state, isPartner ? 1 : 0);
+  const color = isPartner ? state.partnerColor : state.currentColor;
+
+  const dx = targetX - shooterX;
+  const dy = targetY - shooterY;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance < 1) return;
+
+  const speed = GAME_CONFIG.PROJECTILE_SPEED;
+  const rawVx = (dx / distance) * speed;
+  const rawVy = (dy / distance) * speed;
+
+  const { vx, vy } = getAimAssistVector(shooterX, shooterY, rawVx, rawVy, state.targets, color);
+
+  if (isNaN(vx) || isNaN(vy)) return; // Safety check
+
+  // Multishot adds a shot either side of the aimed one. With limited ammo every projectile is a round
+  // (fired, landed and missed alike), so a volley is cut short when the magazine can't cover it.
+  const volley = state.multishotTimer > 0 ? [0, -POWER_UPS.MULTISHOT_SPREAD, POWER_UPS.MULTISHOT_SPREAD] : [0];
+  const angles = hasAmmo ? volley.slice(0, state.ammo) : volley;
+  for (const angle of angles) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    launchProjectile(state, shooterX, shooterY, vx * cos - vy * sin, vx * sin + vy * cos, color);
+  }
+
+  state.stats.shotsFired += angles.length;
+  if (isPartner) state.partnerShotCooldown = SHOT_COOLDOWN;
+  else state.shotCooldown = SHOT_COOLDOWN;
+  if (state.config.mode === GameMode.QUEUE) loadNextColor(state);
+  if (hasAmmo) {
+      state.stats.ammoShotsFired += angles.length;
+      spendAmmo(state, angles.length, events);
+  }
+
+  events.push({ type: 'SHOT', x: shooterX, y: shooterY - GAME_CONFIG.SHOOTER_RADIUS });
+  events.push({ type: 'SOUND', sound: 'shoot' });
+};
+
+const applyInput = (state: EngineState, input: EngineInput, events: EngineEvent[]) => {
+  switch (input.type) {
+    case 'SHOOT':
+      shoot(state, input.x, input.y, input.player ?? 0, events);
+      break;
+    case 'SELECT_COLOR':
+      if (state.config.mode === GameMode.QUEUE) break; // Colors come from the queue
+      if (input.player === 1 && state.config.mode === GameMode.COOP) state.partnerColor = input.color;
+      else state.currentColor = input.color;
+      break;
+    case 'SWAP':
+      if (state.config.mode === GameMode.QUEUE) swapHeldColor(state);
+      break;
+    case 'RESIZE':
+      state.dimensions = { width: input.width, height: input.height };
+      break;
+  }
+};
+
+const spawnBoss = (state: EngineState, events: EngineEvent[]) => {
+  const diffSettings = DIFFICULTY_SETTINGS[state.difficulty];
+  state.bossActive = true;
+  state.scoreSinceLastBoss = 0;
+  events.push({ type: 'SOUND', sound: 'whir' });
+
+  // Clear some targets to make arena space
+  state.targets = state.targets.filter(() => nextRandom(state) > 0.6);
+
+  const bossColor = randomItem(state, COLOR_KEYS);
+  const bossHealth = (10 + (state.level * 5 * diffSettings.bossHealthMulti)) * (state.config.mode === GameMode.COOP ? COOP.BOSS_HEALTH_MULTI : 1);
+  state.targets.push({
+      id: nextId(state, 'boss'),
+      x: state.dimensions.width / 2,
+      y: -120, // Enter from top
+      vx: (nextRandom(state) - 0.5) * 2,
+      vy: 3,
+      color: bossColor,
+      radius: GAME_CONFIG.BOSS_RADIUS,
+      rotation: 0, rotationSpeed: 1,
+      type: TargetType.BOSS,
+      shape: TargetShape.STAR,
+      health: bossHealth,
+      maxHealth: bossHealth,
+      colorShiftTimer: 0,
+      summonTimer: 4000
+  });
+};
+
+// --- Orbiter clusters ---
+// A core ringed by small satellites of different colors. The satellites are ordinary targets
+// for hits, but their positions come from the core's, not from the free-body physics.
+
+const spawnSatellites = (state: EngineState, core: Target) => {
+  const count = CLUSTER.MIN_SATELLITES + Math.floor(nextRandom(state) * (CLUSTER.MAX_SATELLITES - CLUSTER.MIN_SATELLITES + 1));
+  const colors = [...COLOR_KEYS];
+  const startAngle = nextRandom(state) * Math.PI * 2;
+  for (let k = 0; k < count; k++) {
+      const [color] = colors.splice(Math.floor(nextRandom(state) * colors.length), 1);
+      const angle = startAngle + (k / count) * Math.PI * 2;
+      state.targets.push({
+          id: nextId(state, 'satellite'),
+          x: core.x + Math.cos(angle) * CLUSTER.ORBIT_RADIUS,
+          y: core.y + Math.sin(angle) * CLUSTER.ORBIT_RADIUS,
+          vx: core.vx, vy: core.vy,
+          color, radius: CLUSTER.SATELLITE_RADIUS,
+          rotation: 0, rotationSpeed: 3,
+          type: TargetType.SATELLITE, shape: TargetShape.CIRCLE, health: 1,
+          coreId: core.id,
+          orbitAngle: angle
+      });
+  }
+  core.shielded = true;
+};
+
+// Runs after collisions have settled, so satellites sit exactly on the orbit around
+// wherever their core ended up this tick. A core with none left is open to shots.
+const updateOrbits = (state: EngineState) => {
+  const pace = state.slowMoTimer > 0 ? POWER_UPS.SLOW_MO_FACTOR : 1;
+  const cores = new Map<string, Target>();
+  for (const target of state.targets) {
+      if (target.type !== TargetType.CLUSTER) continue;
+      cores.set(target.id, target);
+      target.shielded = false;
+  }
+
+  for (const satellite of state.targets) {
+      if (!satellite.coreId) continue;
+      const core = cores.get(satellite.coreId);
+      if (!core) {
+          satellite.coreId = undefined; // Drifts off as an ordinary target
+          continue;
+      }
+      core.shielded = true;
+
+      const angle = (satellite.orbitAngle || 0) + CLUSTER.ORBIT_SPEED * pace;
+      satellite.orbitAngle = angle;
+      satellite.x = core.x + Math.cos(angle) * CLUSTER.ORBIT_RADIUS;
+      satellite.y = core.y + Math.sin(angle) * CLUSTER.ORBIT_RADIUS;
+      // Kept up to date for anything that leads its aim
+      satellite.vx = core.vx * pace - Math.sin(angle) * CLUSTER.ORBIT_RADIUS * CLUSTER.ORBIT_SPEED * pace;
+      satellite.vy = core.vy * pace + Math.cos(angle) * CLUSTER.ORBIT_RADIUS * CLUSTER.ORBIT_SPEED * pace;
+      satellite.rotation += satellite.rotationSpeed * pace;
+  }
+};
+
+// --- Campaign stages ---
+
+const spawnStageTarget = (state: EngineState, spec: StageTarget) => {
+  const diffSettings = DIFFICULTY_SETTINGS[state.difficulty];
+  const playableHeight = state.dimensions.height - GAME_CONFIG.CONTROLS_HEIGHT;
+  const isBoss = spec.type === TargetType.BOSS;
+  const defaultHealth = isBoss ? 10 + (state.level * 5 * diffSettings.bossHealthMulti) : spec.type === TargetType.TOUGH ? 3 : 1;
+  const health = spec.health ?? defaultHealth;
+  const x = spec.x * state.dimensions.width;
+  const y = spec.y * playableHeight;
+
+  if (isBoss) state.bossActive = true;
+
+  const target: Target = {
+      id: nextId(state, isBoss ? 'boss' : 'target'),
+      x, y,
+      vx: spec.vx, vy: spec.vy,
+      color: spec.color,
+      radius: isBoss ? GAME_CONFIG.BOSS_RADIUS : GAME_CONFIG.TARGET_RADIUS,
+      rotation: isBoss ? 0 : nextRandom(state) * 360,
+      rotationSpeed: isBoss ? 1 : (nextRandom(state) - 0.5) * 2,
+      type: spec.type,
+      shape: spec.shape,
+      health,
+      maxHealth: isBoss ? health : undefined,
+      colorShiftTimer: 0,
+      summonTimer: isBoss ? 4000 : undefined,
+      initialY: y,
+      timeOffset: nextRandom(state) * 1000
+  };
+  state.targets.push(target);
+  if (spec.type === TargetType.CLUSTER) spawnSatellites(state, target);
+};
+
+// Spawns the waves that are due and checks the stage goal. Replaces random spawning in the campaign.
+const updateStage = (state: EngineState, events: EngineEvent[]) => {
+  const stage = state.config.stage;
+  if (!stage) return;
+
+  const survived = stage.goal.type === 'SURVIVE' && state.time >= stage.goal.seconds * 1000;
+  const cleared = stage.goal.type === 'CLEAR_ALL' && state.waveIndex >= stage.waves.length && state.targets.length === 0;
+  if (survived || cleared) {
+      state.runCleared = true;
+      endRun(state, events, 'levelUp');
+      return;
+  }
+
+  while (state.waveIndex < stage.waves.length && state.time >= stage.waves[state.waveIndex].at * 1000) {
+      for (const spec of stage.waves[state.waveIndex].targets) spawnStageTarget(state, spec);
+      state.waveIndex++;
+      events.push({ type: 'SOUND', sound: 'whir' });
+  }
+};
+
+// --- Boss Rush ---
+
+// Bosses back to back with a breather in between; regular spawning and levels are skipped
+const updateBossRush = (state: EngineState, events: EngineEvent[]) => {
+  if (state.bossActive) return;
+
+  if (state.bossSplits.length >= BOSS_RUSH.BOSSES) {
+      state.runCleared = true;
+      endRun(state, events, 'levelUp');
+      return;
+  }
+
+  state.breatherTimer -= TICK_MS;
+  if (state.breatherTimer <= 0) spawnBoss(state, events);
+};
+
+// Boss ability timers (ms). They only escalate in Boss Rush; elsewhere the level already raises health.
+const getBossTimers = (state: EngineState) => {
+  if (state.config.mode !== GameMode.BOSS_RUSH) return { colorShift: 2500, summon: 5000 };
+  const beaten = state.bossSplits.length;
+  return {
+      colorShift: Math.max(BOSS_RUSH.COLOR_SHIFT_MIN, BOSS_RUSH.COLOR_SHIFT_START - beaten * BOSS_RUSH.COLOR_SHIFT_STEP),
+      summon: Math.max(BOSS_RUSH.SUMMON_MIN, BOSS_RUSH.SUMMON_START - beaten * BOSS_RUSH.SUMMON_STEP)
+  };
+};
+
+// Practice runs only get bosses when the player asked for a boss drill
+const bossesEnabled = (config: RunConfig) => config.mode !== GameMode.PRACTICE || config.bossLevel !== undefined;
+
+const updateSpawning = (state: EngineState, events: EngineEvent[]) => {
+  const diffSettings = DIFFICULTY_SETTINGS[state.difficulty];
+  const { width } = state.dimensions;
+  const playableHeight = state.dimensions.height - GAME_CONFIG.CONTROLS_HEIGHT;
+
+  // Boss Trigger
+  if (!state.bossActive && bossesEnabled(state.config) && state.scoreSinceLastBoss > getLevelThreshold(state.level)) {
+      spawnBoss(state, events);
+  }
+
+  state.spawnTimer += TICK_MS;
+  const effectiveSpawnDelay = state.bossActive ? state.nextSpawnDelay * 4 : state.nextSpawnDelay;
+
+  if (state.spawnTimer <= effectiveSpawnDelay) return;
+
+  state.spawnTimer = 0;
+  const intervalRandomness = 0.6 + nextRandom(state) * 0.8;
+  state.nextSpawnDelay = state.baseSpawnInterval * intervalRandomness;
+
+  const calculatedMax = Math.floor(diffSettings.maxTargets * (1 + (state.speedMultiplier - 1) * 0.5));
+  const currentMaxTargets = Math.min(calculatedMax, TARGET_CAP);
+
+  if (state.targets.length >= currentMaxTargets || (state.bossActive && state.targets.length >= 3)) return;
+
+  const radius = GAME_CONFIG.TARGET_RADIUS;
+  let randomColor = randomItem(state, COLOR_KEYS);
+  // Color queue: whatever is loaded always has something to hit
+  if (state.config.mode === GameMode.QUEUE && !state.targets.some(t => t.color === state.currentColor)) randomColor = state.currentColor;
+
+  const startX = nextRandom(state) * (width - radius * 2) + radius;
+  let startY = nextRandom(state) * (playableHeight * 0.6) + radius;
+
+  // Avoid overlap on spawn
+  for (const t of state.targets) {
+      if (Math.hypot(t.x - startX, t.y - startY) < radius * 2 + 40) return;
+  }
+
+  const angle = nextRandom(state) * Math.PI * 2;
+  const speed = GAME_CONFIG.TARGET_SPEED_BASE * state.speedMultiplier * diffSettings.speedMultiplier;
+
+  let targetType = TargetType.NORMAL;
+  let targetHealth = 1;
+
+  const availableShapes = [TargetShape.CIRCLE];
+  if (state.level >= 2) availableShapes.push(TargetShape.SQUARE);
+  if (state.level >= 3) availableShapes.push(TargetShape.TRIANGLE);
+  if (state.level >= 4) availableShapes.push(TargetShape.DIAMOND);
+
+  const targetShape = randomItem(state, availableShapes);
+
+  const roll = nextRandom(state);
+  const specialChance = state.difficulty === Difficulty.EASY ? 0.15 : state.difficulty === Difficulty.MEDIUM ? 0.35 : 0.6;
+  const drillTypes = state.config.mode === GameMode.PRACTICE ? state.config.targetTypes : undefined;
+
+  if (drillTypes) {
+      if (drillTypes.length === 0) return; // Boss-only drill
+      targetType = randomItem(state, drillTypes);
+  } else if (state.score >= 15 || state.difficulty !== Difficulty.EASY) {
+      if (roll < specialChance) {
+          const typeRoll = nextRandom(state);
+          if (typeRoll < 0.17) targetType = TargetType.TOUGH;
+          else if (typeRoll < 0.31) targetType = TargetType.SPLIT;
+          else if (typeRoll < 0.45) targetType = TargetType.STATIONARY;
+          else if (typeRoll < 0.58) targetType = TargetType.COLOR_SHIFT;
+          else if (typeRoll < 0.70) targetType = TargetType.SINE_WAVE;
+          else if (typeRoll < 0.79) targetType = TargetType.BOMB;
+          else if (typeRoll < 0.87) targetType = TargetType.MIRROR;
+          else if (typeRoll < 0.94) targetType = TargetType.GHOST;
+          else targetType = TargetType.CLUSTER;
+      }
+  }
+
+  let vx = Math.cos(angle) * speed;
+  let vy = Math.sin(angle) * speed;
+
+  if (targetType === TargetType.TOUGH) {
+      targetHealth = 3; vx *= 0.8; vy *= 0.8;
+  } else if (targetType === TargetType.STATIONARY) {
+      vx = 0; vy = 0;
+  } else if (targetType === TargetType.SINE_WAVE) {
+      vy = 0;
+      vx = (nextRandom(state) > 0.5 ? 1 : -1) * speed * 1.2;
+      startY = Math.max(radius + 70, Math.min(playableHeight - radius - 70, startY));
+  } else if (targetType === TargetType.CLUSTER) {
+      vx *= CLUSTER.SPEED_MULTI; vy *= CLUSTER.SPEED_MULTI;
+  }
+
+  const target: Target = {
+      id: nextId(state, 'target'),
+      x: startX, y: startY, vx, vy,
+      color: randomColor,
+      radius: radius,
+      rotation: nextRandom(state) * 360,
+      rotationSpeed: (nextRandom(state) - 0.5) * 2,
+      type: targetType,
+      shape: targetType === TargetType.MIRROR || targetType === TargetType.CLUSTER ? TargetShape.CIRCLE : targetShape, // Both are read by their round rim
+      health: targetHealth,
+      colorShiftTimer: 0,
+      initialY: startY,
+      timeOffset: nextRandom(state) * 1000
+  };
+  state.targets.push(target);
+  if (targetType === TargetType.CLUSTER) spawnSatellites(state, target);
+};
+
+const updateTargets = (state: EngineState, events: EngineEvent[]) => {
+  const playableHeight = state.dimensions.height - GAME_CONFIG.CONTROLS_HEIGHT;
+
+  const scoreMilestone = Math.floor(state.score / 20);
+  if (scoreMilestone > state.lastScoreMilestone) {
+      state.lastScoreMilestone = scoreMilestone;
+      state.speedMultiplier = Math.min(2.5, state.speedMultiplier + 0.05);
+  }
+
+  // Minions are collected separately so the loop doesn't visit them this step
+  const summoned: Target[] = [];
+  const pace = state.slowMoTimer > 0 ? POWER_UPS.SLOW_MO_FACTOR : 1;
+
+  for (const target of state.targets) {
+      if (target.coreId) continue; // Moved by updateOrbits
+
+      // Boss Constraints
+      if (target.type === TargetType.BOSS) {
+          const bossTimers = getBossTimers(state);
+          if (target.y < target.radius) {
+              // If it's entering, let it enter, otherwise cap it
+              if (target.vy < 0) target.vy = Math.abs(target.vy);
+          }
+          // Keep Boss in top area
+          if (target.y > playableHeight * 0.6) target.vy = -Math.abs(target.vy) * 1.2;
+
+          // Abilities
+          target.colorShiftTimer = (target.colorShiftTimer || 0) + TICK_MS;
+          if (target.colorShiftTimer > bossTimers.colorShift) {
+              target.colorShiftTimer = 0;
+              const remainingColors = COLOR_KEYS.filter(c => c !== target.color);
+              target.color = randomItem(state, remainingColors);
+              events.push({ type: 'PARTICLES', x: target.x, y: target.y, effect: TargetType.COLOR_SHIFT });
+              events.push({ type: 'SOUND', sound: 'whir' }); // Audio feedback for boss shift
+          }
+
+          target.summonTimer = (target.summonTimer || 0) - TICK_MS;
+          if (target.summonTimer <= 0) {
+              target.summonTimer = bossTimers.summon;
+              for (let k = 0; k < 2; k++) {
+                  const angle = nextRandom(state) * Math.PI * 2;
+                  const dist = target.radius + 40;
+                  const mX = target.x + Math.cos(angle) * dist;
+                  const mY = target.y + Math.sin(angle) * dist;
+                  summoned.push({
+                      id: nextId(state, 'minion'),
+                      x: mX, y: mY, vx: (nextRandom(state) - 0.5) * 3, vy: (nextRandom(state) - 0.5) * 3,
+                      color: target.color, radius: GAME_CONFIG.TARGET_RADIUS * 0.8,
+                      rotation: 0, rotationSpeed: 2, type: TargetType.NORMAL, shape: TargetShape.CIRCLE, health: 1
+                  });
+                  events.push({ type: 'PARTICLES', x: mX, y: mY, effect: TargetType.SPLIT, color: target.color });
+              }
+              events.push({ type: 'SOUND', sound: 'whir' });
+          }
+
+          if (target.maxHealth && target.health < target.maxHealth * 0.4) {
+              target.rotationSpeed = 5;
+              if (Math.abs(target.vx) < 2) target.vx *= 1.01;
+              if (Math.abs(target.vy) < 2) target.vy *= 1.01;
+          }
+      }
+      else if (target.type === TargetType.COLOR_SHIFT) {
+          target.colorShiftTimer = (target.colorShiftTimer || 0) + TICK_MS;
+          if (target.colorShiftTimer > 2500) {
+              target.colorShiftTimer = 0;
+              const remainingColors = COLOR_KEYS.filter(c => c !== target.color);
+              target.color = randomItem(state, remainingColors);
+              events.push({ type: 'PARTICLES', x: target.x, y: target.y, effect: TargetType.COLOR_SHIFT });
+          }
+      }
+      else if (target.type === TargetType.GHOST) {
+          target.phaseTimer = (target.phaseTimer ?? GHOST.SOLID_TIME) - TICK_MS;
+          if (target.phaseTimer <= 0) {
+              target.phased = !target.phased;
+              target.phaseTimer = target.phased ? GHOST.PHASED_TIME : GHOST.SOLID_TIME;
+          }
+      }
+
+      if (target.type === TargetType.SINE_WAVE && target.initialY !== undefined) {
+          // Holding the phase back slows the wave along with everything else
+          if (pace < 1) target.timeOffset = (target.timeOffset || 0) - TICK_MS * (1 - pace);
+          target.x += target.vx * pace;
+          target.y = target.initialY + Math.sin((state.time + (target.timeOffset || 0)) * 0.004) * 60;
+      } else {
+          target.x += target.vx * pace;
+          target.y += target.vy * pace;
+      }
+
+      target.rotation += target.rotationSpeed * pace;
+  }
+
+  state.targets.push(...summoned);
+};
+
+// --- Time Attack pickups ---
+
+const spawnTimePickup = (state: EngineState, x: number, y: number) => {
+  if (state.pickups.length >= PICKUP_CAP) return;
+  state.pickups.push({
+      id: nextId(state, 'pickup'),
+      x, y,
+      vx: (nextRandom(state) - 0.5) * 1.5,
+      vy: -0.6 - nextRandom(state) * 0.4, // Floats upwards
+      radius: TIME_ATTACK.PICKUP_RADIUS,
+      kind: 'TIME',
+      life: TIME_ATTACK.PICKUP_LIFETIME
+  });
+};
+
+const updatePickups = (state: EngineState) => {
+  const { width } = state.dimensions;
+  for (const pickup of state.pickups) {
+      pickup.x += pickup.vx;
+      pickup.y += pickup.vy;
+      pickup.life -= TICK_MS;
+      if (pickup.x - pickup.radius < 0 || pickup.x + pickup.radius > width) pickup.vx = -pickup.vx;
+  }
+  state.pickups = state.pickups.filter(p => p.life > 0 && p.y > -p.radius);
+};
+
+// Any color collects a pickup
+const collectPickup = (state: EngineState, index: number, events: EngineEvent[]) => {
+  const [pickup] = state.pickups.splice(index, 1);
+  events.push({ type: 'PARTICLES', x: pickup.x, y: pickup.y, effect: 'PICKUP', kind: pickup.kind });
+
+  switch (pickup.kind) {
+    case 'TIME':
+      state.timeRemaining += TIME_ATTACK.PICKUP_BONUS;
+      events.push({ type: 'TIME_CHANGE', amount: TIME_ATTACK.PICKUP_BONUS });
+      events.push({ type: 'SOUND', sound: 'timeBonus' });
+      break;
+    case 'SLOW_MO':
+      state.slowMoTimer = POWER_UPS.SLOW_MO_DURATION;
+      state.stats.slowMoPickups++;
+      events.push({ type: 'SOUND', sound: 'slowMo' });
+      break;
+    case 'MULTISHOT':
+      state.multishotTimer = POWER_UPS.MULTISHOT_DURATION;
+      state.stats.multishotPickups++;
+      events.push({ type: 'SOUND', sound: 'multishot' });
+      break;
+    case 'RAINBOW':
+      state.rainbowTimer = POWER_UPS.RAINBOW_DURATION;
+      state.stats.rainbowPickups++;
+      events.push({ type: 'SOUND', sound: 'rainbow' });
+      break;
+    case 'SHIELD':
+      state.hasShield = true;
+      state.stats.shieldPickups++;
+      events.push({ type: 'SOUND', sound: 'shield' });
+      break;
+  }
+};
+
+// --- Power-ups ---
+// Timed effects (and a one-hit shield) from pickups that float up the playfield now and then,
+// or drop from armored targets and bosses.
+
+const powerUpsEnabled = (config: RunConfig) =>
+  config.mode !== GameMode.PRACTICE && config.mode !== GameMode.CAMPAIGN && config.mode !== GameMode.VERSUS;
+
+const spawnPowerUp = (state: EngineState, x: number, y: number) => {
+  if (state.pickups.length >= PICKUP_CAP) return;
+  state.pickups.push({
+      id: nextId(state, 'powerup'),
+      x, y,
+      vx: (nextRandom(state) - 0.5) * 1.5,
+      vy: -0.3 - nextRandom(state) * 0.3,
+      radius: POWER_UPS.RADIUS,
+      kind: randomItem(state, POWER_UP_KINDS),
+      life: POWER_UPS.LIFETIME
+  });
+};
+
+const updatePowerUps = (state: EngineState) => {
+  state.slowMoTimer = Math.max(0, state.slowMoTimer - TICK_MS);
+  state.multishotTimer = Math.max(0, state.multishotTimer - TICK_MS);
+  state.rainbowTimer = Math.max(0, state.rainbowTimer - TICK_MS);
+
+  state.powerUpTimer -= TICK_MS;
+  if (state.powerUpTimer > 0) return;
+  state.powerUpTimer = POWER_UPS.SPAWN_INTERVAL * (0.7 + nextRandom(state) * 0.6);
+
+  // Low on the playfield, so it has a while to drift up before it's gone
+  const { width } = state.dimensions;
+  const playableHeight = state.dimensions.height - GAME_CONFIG.CONTROLS_HEIGHT;
+  const radius = POWER_UPS.RADIUS;
+  spawnPowerUp(state, radius + nextRandom(state) * (width - radius * 2), playableHeight * (0.5 + nextRandom(state) * 0.3));
+};
+
+// Mass-based resolution
+// Boss = 100, Tough = 3, Normal = 1, Stationary = Infinite
+const getMass = (t: Target) => {
+  if (t.type === TargetType.STATIONARY) return Infinity;
+  if (t.type === TargetType.BOSS) return 100;
+  if (t.type === TargetType.TOUGH) return 3;
+  return 1;
+};
+
+const getMaxRadius = (targets: Target[]) => {
+  let maxRadius = 0;
+  for (const t of targets) maxRadius = Math.max(maxRadius, t.radius);
+  return maxRadius;
+};
+
+// Every target's centre, as a point in the grid
+const buildPositionGrid = (targets: Target[]): SpatialHash => {
+  const grid = createSpatialHash(GRID_CELL_SIZE);
+  targets.forEach((t, i) => insertBox(grid, i, t.x, t.y, t.x, t.y));
+  return grid;
+};
+
+const resolveCollisions = (state: EngineState) => {
+  const { width } = state.dimensions;
+  const playableHeight = state.dimensions.height - GAME_CONFIG.CONTROLS_HEIGHT;
+  const maxRadius = getMaxRadius(state.targets);
+
+  // Multi-step resolution for stability
+  const physicsSteps = 2;
+  for (let step = 0; step < physicsSteps; step++) {
+      // Target-Target Collision. Pairs are visited in the same (i, j) order as a full pair loop.
+      let grid = buildPositionGrid(state.targets);
+      let startX = state.targets.map(t => t.x);
+      let startY = state.targets.map(t => t.y);
+      // How far each target has been pushed since the grid was built. A pair can only be missed
+      // if the two together moved further than the margin, so no target may use more than half.
+      let pushed = state.targets.map(() => 0);
+      const queryCandidates = (i: number) => {
+          const reach = state.targets[i].radius + maxRadius + BROADPHASE_MARGIN;
+          return queryBox(grid, startX[i] - reach, startY[i] - reach, startX[i] + reach, startY[i] + reach);
+      };
+
+      for (let i = 0; i < state.targets.length; i++) {
+          let candidates = queryCandidates(i);
+
+          for (let k = 0; k < candidates.length; k++) {
+              const j = candidates[k];
+              if (j <= i) continue;
+              const t1 = state.targets[i];
+              const t2 = state.targets[j];
+              if (t1.phased || t2.phased) continue; // Phased ghosts drift through everything
+              if (t1.coreId || t2.coreId) continue; // Satellites hold their orbit
+
+              const dx = t2.x - t1.x;
+              const dy = t2.y - t1.y;
+              const distSq = dx * dx + dy * dy;
+              const minDist = t1.radius + t2.radius;
+
+              if (distSq >= minDist * minDist) continue;
+
+              const dist = Math.sqrt(distSq);
+              if (dist < 0.1) continue; // Avoid division by zero
+
+              const nx = dx / dist;
+              const ny = dy / dist;
+              const overlap = minDist - dist;
+
+              const m1 = getMass(t1);
+              const m2 = getMass(t2);
+
+              const invM1 = m1 === Infinity ? 0 : 1/m1;
+              const invM2 = m2 === Infinity ? 0 : 1/m2;
+              const totalInvMass = invM1 + invM2;
+
+              if (totalInvMass <= 0) continue;
+
+              // 1. Position Correction (Stop Sinking)
+              const correctionPercent = 0.8; // Correct 80% of overlap per step
+              const moveX = nx * (overlap * correctionPercent) / totalInvMass;
+              const moveY = ny * (overlap * correctionPercent) / totalInvMass;
+
+              // NaN Checks
+              if (!isNaN(moveX) && !isNaN(moveY)) {
+                  if (m1 !== Infinity) { t1.x -= moveX * invM1; t1.y -= moveY * invM1; }
+                  if (m2 !== Infinity) { t2.x += moveX * invM2; t2.y += moveY * invM2; }
+
+                  const push = Math.hypot(moveX, moveY);
+                  pushed[i] += push * invM1;
+                  pushed[j] += push * invM2;
+                  if (pushed[i] > BROADPHASE_MARGIN / 2 || pushed[j] > BROADPHASE_MARGIN / 2) {
+                      // Start over from where everything is now and carry on after this pair
+                      grid = buildPositionGrid(state.targets);
+                      startX = state.targets.map(t => t.x);
+                      startY = state.targets.map(t => t.y);
+                      pushed = state.targets.map(() => 0);
+                      candidates = queryCandidates(i).filter(c => c > j);
+                      k = -1;
+                  }
+              }
+
+              // 2. Impulse Resolution (Bounce)
+              const dvx = t2.vx - t1.vx;
+              const dvy = t2.vy - t1.vy;
+              const velAlongNormal = dvx * nx + dvy * ny;
+
+              if (velAlongNormal < 0) { // Only bounce if moving towards each other
+                  const restitution = 0.9; // Bounciness
+                  let impulse = -(1 + restitution) * velAlongNormal;
+                  impulse /= totalInvMass;
+
+                  const impulseX = impulse * nx;
+                  const impulseY = impulse * ny;
+
+                  if (!isNaN(impulseX) && !isNaN(impulseY)) {
+                      if (m1 !== Infinity) { t1.vx -= impulseX * invM1; t1.vy -= impulseY * invM1; }
+                      if (m2 !== Infinity) { t2.vx += impulseX * invM2; t2.vy += impulseY * invM2; }
+                  }
+              }
+          }
+      }
+
+      // Wall Constraints
+      for (const target of state.targets) {
+          if (target.coreId) continue;
+          // A shielded core keeps its whole orbit on screen
+          const reach = target.shielded ? CLUSTER.ORBIT_RADIUS + CLUSTER.SATELLITE_RADIUS : target.radius;
+
+          if (target.x - reach < 0) {
+              target.x = reach;
+              target.vx = Math.abs(target.vx) * 0.9;
+          } else if (target.x + reach > width) {
+              target.x = width - reach;
+              target.vx = -Math.abs(target.vx) * 0.9;
+          }
+
+          if (target.type !== TargetType.SINE_WAVE && target.type !== TargetType.BOSS) {
+              if (target.y - reach < 0) {
+                  target.y = reach;
+                  target.vy = Math.abs(target.vy) * 0.9;
+              } else if (target.y + reach > playableHeight) {
+                  target.y = playableHeight - reach;
+                  target.vy = -Math.abs(target.vy) * 0.9;
+              }
+          }
+      }
+  }
+};
+
+const recordKill = (stats: GameStats, type: TargetType) => {
+  stats.targetsHit++;
+  if (type === TargetType.TOUGH) stats.toughKills++;
+  if (type === TargetType.SPLIT) stats.splitKills++;
+  if (type === TargetType.STATIONARY) stats.stationaryKills++;
+  if (type === TargetType.COLOR_SHIFT) stats.colorShiftKills++;
+  if (type === TargetType.SINE_WAVE) stats.sineWaveKills++;
+  if (type === TargetType.BOMB) stats.bombKills++;
+  if (type === TargetType.MIRROR) stats.mirrorKills++;
+  if (type === TargetType.GHOST) stats.ghostKills++;
+  if (type === TargetType.CLUSTER) stats.clusterKills++;
+};
+
+const spawnSplitChildren = (state: EngineState, target: Target) => {
+  const childRadius = target.radius * 0.6;
+  for (let k = 0; k < 2; k++) {
+      const angleOffset = (k === 0 ? 1 : -1) * (Math.PI / 3);
+      const baseAngle = Math.atan2(target.vy, target.vx);
+      const newAngle = baseAngle + angleOffset;
+      const speed = Math.max(4, Math.sqrt(target.vx*target.vx + target.vy*target.vy) * 1.5);
+      state.targets.push({
+          id: nextId(state, 'split'),
+          x: target.x + Math.cos(newAngle) * 20,
+          y: target.y + Math.sin(newAngle) * 20,
+          vx: Math.cos(newAngle) * speed, vy: Math.sin(newAngle) * speed,
+          color: target.color, radius: childRadius,
+          rotation: 0, rotationSpeed: (nextRandom(state) - 0.5) * 8,
+          type: TargetType.NORMAL, shape: TargetShape.CIRCLE, health: 1
+      });
+  }
+};
+
+// A bomb takes out every target of its color within reach. Bombs caught in the blast go off
+// in turn, and each blast deeper into the chain is worth a bigger bonus per kill.
+const detonateBomb = (state: EngineState, bomb: Target, events: EngineEvent[]) => {
+  const diffSettings = DIFFICULTY_SETTINGS[state.difficulty];
+  const multiplier = getStreakMultiplier(state.streak);
+  // Each queued blast remembers how many bombs deep into the chain it is, so sibling bombs
+  // set off by the same blast share a bonus
+  const pending: { source: Target; depth: number }[] = [{ source: bomb, depth: 1 }];
+  let chain = 0;
+
+  while (pending.length > 0) {
+      const { source, depth } = pending.shift()!;
+      chain = Math.max(chain, depth);
+
+      for (let i = state.targets.length - 1; i >= 0; i--) {
+          const target = state.targets[i];
+          if (target.type === TargetType.BOSS || target.phased || target.shielded || target.color !== source.color) continue;
+          if (Math.hypot(target.x - source.x, target.y - source.y) > BOMB.RADIUS + target.radius) continue;
+
+          // Blasts ignore armor, and split targets are vaporised without leaving children
+          state.targets.splice(i, 1);
+          const baseScore = TARGET_SCORES[target.type] || 10;
+          state.score += baseScore * diffSettings.scoreMultiplier * multiplier + BOMB.CHAIN_BONUS * depth;
+          state.scoreSinceLastBoss += baseScore * multiplier;
+          recordKill(state.stats, target.type);
+          state.stats.bombChainKills++;
+
+          if (state.config.mode === GameMode.VERSUS && state.stats.targetsHit % VERSUS.KILLS_PER_GARBAGE === 0) {
+              events.push({ type: 'GARBAGE', count: 1 });
+          }
+
+          if (target.type === TargetType.BOMB) pending.push({ source: target, depth: depth + 1 });
+          events.push({ type: 'PARTICLES', x: target.x, y: target.y, effect: target.type, color: target.color });
+      }
+  }
+
+  state.stats.longestBombChain = Math.max(state.stats.longestBombChain, chain);
+  events.push({ type: 'SOUND', sound: 'explosion' });
+  events.push({ type: 'SHAKE', duration: 250 + chain * 100 });
+};
+
+const handleMatch = (state: EngineState, proj: Projectile, target: Target, index: number, accuracy: number, events: EngineEvent[]) => {
+  const diffSettings = DIFFICULTY_SETTINGS[state.difficulty];
+
+  state.streak += 1;
+  state.shotsLanded++;
+  if (state.config.mode === GameMode.AMMO) state.stats.ammoShotsLanded++;
+  if (state.streak > state.stats.highestStreak) state.stats.highestStreak = state.streak;
+
+  // Streak Feedback Sound (Every 5 hits)
+  if (state.streak > 0 && state.streak % 5 === 0) {
+      events.push({ type: 'SOUND', sound: 'streak' });
+  }
+
+  events.push({ type: 'SHAKE', duration: 150 });
+
+  if (state.config.mode === GameMode.TIME_ATTACK && accuracy >= TIME_ATTACK.BULLSEYE_ACCURACY) {
+      spawnTimePickup(state, target.x, target.y);
+  }
+
+  if ((target.type === TargetType.TOUGH || target.type === TargetType.BOSS) && target.health > 1) {
+      target.health -= 1;
+      state.score += (target.type === TargetType.BOSS ? 10 : 5) * diffSettings.scoreMultiplier;
+      state.scoreSinceLastBoss += 10;
+      events.push({ type: 'SOUND', sound: 'heavy' });
+      events.push({ type: 'PARTICLES', x: proj.x, y: proj.y, effect: TargetType.TOUGH, accuracy });
+      return;
+  }
+
+  const multiplier = getStreakMultiplier(state.streak);
+  const baseScore = TARGET_SCORES[target.type] || 10;
+  state.score += baseScore * diffSettings.scoreMultiplier * multiplier;
+  if (target.type === TargetType.CLUSTER) state.score += CLUSTER.CORE_BONUS * diffSettings.scoreMultiplier * multiplier;
+
+  // Prevent instant level skipping by capping boss kill progress
+  if (target.type === TargetType.BOSS) {
+      state.scoreSinceLastBoss += 50; // Minimal progress for killing boss, since it resets anyway
+  } else {
+      state.scoreSinceLastBoss += baseScore * multiplier;
+  }
+
+  if (target.type === TargetType.BOSS) {
+      state.level++;
+      events.push({ type: 'SOUND', sound: 'levelUp' });
+      state.bossActive = false;
+      state.scoreSinceLastBoss = 0; // Reset progress for next level
+      state.stats.bossKills++;
+      state.stats.highestLevel = Math.max(state.stats.highestLevel, state.level);
+      state.speedMultiplier += 0.2;
+      state.baseSpawnInterval = Math.max(300, state.baseSpawnInterval - 50);
+      events.push({ type: 'SOUND', sound: 'pop' });
+
+      if (state.config.mode === GameMode.BOSS_RUSH) {
+          state.bossSplits.push(state.time);
+          state.breatherTimer = BOSS_RUSH.BREATHER;
+      }
+
+      if (state.config.mode === GameMode.LIVES && state.lives < LIVES_CONFIG.MAX) {
+          state.lives++;
+          events.push({ type: 'LIFE_CHANGE', lives: state.lives, amount: 1 });
+      }
+  } else if (target.type === TargetType.SPLIT || target.type === TargetType.CLUSTER) {
+      events.push({ type: 'SOUND', sound: 'pop' });
+  } else if (state.streak % 5 !== 0) {
+      // Don't play regular score sound if we played a streak sound this step
+      events.push({ type: 'SOUND', sound: 'score' });
+  }
+
+  recordKill(state.stats, target.type);
+
+  if (state.config.mode === GameMode.AMMO && state.reloadTimer === 0) {
+      state.ammo = Math.min(AMMO_CONFIG.MAGAZINE, state.ammo + AMMO_CONFIG.KILL_REFILL);
+  }
+
+  if (state.config.mode === GameMode.VERSUS) {
+      if (target.type === TargetType.BOSS) events.push({ type: 'GARBAGE', count: VERSUS.BOSS_GARBAGE });
+      else if (state.stats.targetsHit % VERSUS.KILLS_PER_GARBAGE === 0) events.push({ type: 'GARBAGE', count: 1 });
+  }
+
+  if (powerUpsEnabled(state.config)) {
+      if (target.type === TargetType.BOSS || (target.type === TargetType.TOUGH && nextRandom(state) < POWER_UPS.TOUGH_DROP_CHANCE)) {
+          spawnPowerUp(state, target.x, target.y);
+      }
+  }
+
+  state.targets.splice(index, 1);
+  events.push({ type: 'PARTICLES', x: target.x, y: target.y, effect: target.type, color: target.color, accuracy: accuracy + 0.5 });
+
+  if (target.type === TargetType.SPLIT) spawnSplitChildren(state, target);
+  if (target.type === TargetType.BOMB) detonateBomb(state, target, events);
+};
+
+// Starts the short wind-down before GAME_OVER
+const endRun = (state: EngineState, events: EngineEvent[], sound: SoundEffect = 'gameover') => {
+  state.isEnding = true;
+  state.endingTimer = ENDING_DELAY;
+  events.push({ type: 'SOUND', sound });
+  state.stats.totalScore = Math.floor(state.score);
+};
+
+const handleMismatch = (state: EngineState, proj: Projectile, events: EngineEvent[]) => {
+  // A shield soaks up one wrong color completely
+  if (state.hasShield) {
+      state.hasShield = false;
+      events.push({ type: 'SHIELD_BREAK' });
+      events.push({ type: 'PARTICLES', x: proj.x, y: proj.y, effect: 'MISS' });
+      events.push({ type: 'SOUND', sound: 'shieldBreak' });
+      events.push({ type: 'SHAKE', duration: 200 });
+      return;
+  }
+
+  state.streak = 0;
+  state.stats.targetsMissed++;
+  events.push({ type: 'PARTICLES', x: proj.x, y: proj.y, effect: 'MISS' });
+
+  // Against the clock a wrong color only costs time; the run ends when the clock does
+  if (state.config.mode === GameMode.TIME_ATTACK) {
+      state.timeRemaining = Math.max(0, state.timeRemaining - TIME_ATTACK.MISMATCH_PENALTY);
+      events.push({ type: 'TIME_CHANGE', amount: -TIME_ATTACK.MISMATCH_PENALTY });
+      events.push({ type: 'SOUND', sound: 'heavy' });
+      events.push({ type: 'SHAKE', duration: 300 });
+      return;
+  }
+
+  // Practice never fails
+  if (state.config.mode === GameMode.PRACTICE) {
+      events.push({ type: 'SOUND', sound: 'heavy' });
+      events.push({ type: 'SHAKE', duration: 200 });
+      return;
+  }
+
+  // With lives a wrong color costs a heart; right after losing one, mismatches are forgiven
+  if (state.config.mode === GameMode.LIVES) {
+      if (state.invulnerableTimer > 0) {
+          events.push({ type: 'SOUND', sound: 'rotate' });
+          return;
+      }
+      state.lives--;
+      state.stats.livesLost++;
+      events.push({ type: 'LIFE_CHANGE', lives: state.lives, amount: -1 });
+      events.push({ type: 'SHAKE', duration: 400 });
+      if (state.lives > 0) {
+          state.invulnerableTimer = LIVES_CONFIG.INVULNERABILITY;
+          events.push({ type: 'SOUND', sound: 'heavy' });
+      } else {
+          endRun(state, events);
+      }
+      return;
+  }
+
+  events.push({ type: 'SHAKE', duration: 500 });
+  endRun(state, events);
+};
+
+const HIT_TOLERANCE = 8; // Slight hit tolerance around each target
+
+interface SweptHit {
+  time: number;     // Fraction of the tick at which the shot touches the target, 0 to 1
+  accuracy: number; // 1 for a dead-centre shot, 0 at the edge
+}
+
+// Anything a shot can hit: targets and pickups
+type SweepBody = Pick<Target, 'x' | 'y' | 'prevX' | 'prevY' | 'radius'>;
+
+// Swept circle test in the target's frame of reference: the shot travels from
+// (x0, y0) by (dx, dy) during the tick while the target moves from its previous
+// position to its current one. Returns the earliest contact, or null if the paths never meet.
+const sweepProjectile = (x0: number, y0: number, dx: number, dy: number, target: SweepBody): SweptHit | null => {
+  const tx0 = target.prevX ?? target.x;
+  const ty0 = target.prevY ?? target.y;
+  const ox = x0 - tx0;
+  const oy = y0 - ty0;
+  const vx = dx - (target.x - tx0);
+  const vy = dy - (target.y - ty0);
+  const reach = target.radius + HIT_TOLERANCE;
+
+  const a = vx * vx + vy * vy;
+  const b = ox * vx + oy * vy;
+  const c = ox * ox + oy * oy - reach * reach;
+
+  let time: number;
+  if (c <= 0) {
+      time = 0; // Already touching at the start of the tick
+  } else {
+      if (a === 0 || b >= 0) return null; // Not closing in
+      const disc = b * b - a * c;
+      if (disc < 0) return null;
+      // Smaller root written as c / (-b + sqrt(disc)). The textbook (-b - sqrt(disc)) / a subtracts
+      // two nearly equal numbers when the shot starts just outside reach (a * c tiny next to b * b),
+      // which loses the contact time to rounding and can even push it below zero.
+      time = c / (-b + Math.sqrt(disc));
+      if (time > 1) return null;
+  }
+
+  // Accuracy is how close the line of approach passes to the centre, so it doesn't depend
+  // on where within a tick the contact happened to be sampled
+  const missDistance = a > 0 ? Math.abs(ox * vy - oy * vx) / Math.sqrt(a) : Math.sqrt(ox * ox + oy * oy);
+  return { time, accuracy: Math.max(0, 1 - (missDistance / target.radius)) };
+};
+
+// Unit vector from a target's centre to where a shot touched it, taken at the moment of contact
+const contactNormal = (target: Target, proj: Projectile, time: number) => {
+  const tx0 = target.prevX ?? target.x;
+  const ty0 = target.prevY ?? target.y;
+  const nx = proj.x - (tx0 + (target.x - tx0) * time);
+  const ny = proj.y - (ty0 + (target.y - ty0) * time);
+  const length = Math.hypot(nx, ny) || 1;
+  return { x: nx / length, y: ny / length };
+};
+
+// A mirror's colored face is the arc of its rim centred on the direction it's rotated to
+const isMirrorCore = (target: Target, normal: { x: number; y: number }) => {
+  const offset = Math.atan2(normal.y, normal.x) - target.rotation * (Math.PI / 180);
+  return Math.abs(Math.atan2(Math.sin(offset), Math.cos(offset))) <= MIRROR.CORE_ARC / 2;
+};
+
+// Facet hits bounce the shot off instead of counting. It stays live and can hit
+// anything else on the way out, until it has bounced too often and shatters.
+const reflectOffMirror = (state: EngineState, proj: Projectile, target: Target, normal: { x: number; y: number }, events: EngineEvent[]) => {
+  events.push({ type: 'PARTICLES', x: proj.x, y: proj.y, effect: TargetType.MIRROR, accuracy: 0 });
+  if (proj.bounces >= MIRROR.MAX_BOUNCES) {
+      proj.active = false;
+      events.push({ type: 'SOUND', sound: 'heavy' });
+      return;
+  }
+
+  const along = proj.vx * normal.x + proj.vy * normal.y;
+  if (along < 0) {
+      proj.vx -= 2 * along * normal.x;
+      proj.vy -= 2 * along * normal.y;
+  }
+  // Parked just clear of the mirror so the next sweep doesn't start inside it
+  const clearance = target.radius + HIT_TOLERANCE + 1;
+  proj.x = target.x + normal.x * clearance;
+  proj.y = target.y + normal.y * clearance;
+  proj.bounces++;
+  events.push({ type: 'SOUND', sound: 'ricochet' });
+};
+
+// Each target's swept box for this tick (previous to current position), grown by its hit reach
+const buildSweptGrid = (targets: Target[]): SpatialHash => {
+  const grid = createSpatialHash(GRID_CELL_SIZE);
+  targets.forEach((t, i) => {
+      const reach = t.radius + HIT_TOLERANCE;
+      const x0 = t.prevX ?? t.x;
+      const y0 = t.prevY ?? t.y;
+      insertBox(grid, i, Math.min(x0, t.x) - reach, Math.min(y0, t.y) - reach, Math.max(x0, t.x) + reach, Math.max(y0, t.y) + reach);
+  });
+  return grid;
+};
+
+const updateProjectiles = (state: EngineState, events: EngineEvent[]) => {
+  const { width, height } = state.dimensions;
+  // Rebuilt lazily after any hit, since hits remove targets and spawn split children
+  let grid: SpatialHash | null = null;
+
+  for (const proj of state.projectilePool) {
+      if (!proj.active) continue;
+
+      const startX = proj.x;
+      const startY = proj.y;
+      proj.x += proj.vx;
+      proj.y += proj.vy;
+
+      // The target the shot reached first along this tick's path gets hit
+      if (!grid) grid = buildSweptGrid(state.targets);
+      const candidates = queryBox(grid, Math.min(startX, proj.x), Math.min(startY, proj.y), Math.max(startX, proj.x), Math.max(startY, proj.y));
+
+      let hitIndex = -1;
+      let firstHit: SweptHit | null = null;
+      for (let k = candidates.length - 1; k >= 0; k--) {
+          const i = candidates[k];
+          if (state.targets[i].phased) continue; // No hit and no mismatch: the shot carries on through
+          const sweep = sweepProjectile(startX, startY, proj.vx, proj.vy, state.targets[i]);
+          if (sweep && (!firstHit || sweep.time < firstHit.time)) {
+              firstHit = sweep;
+              hitIndex = i;
+          }
+      }
+
+      // Pickups are few, so they're tested directly. One reached before any target is collected.
+      let pickupIndex = -1;
+      for (let i = 0; i < state.pickups.length; i++) {
+          const sweep = sweepProjectile(startX, startY, proj.vx, proj.vy, state.pickups[i]);
+          if (sweep && (!firstHit || sweep.time < firstHit.time)) {
+              firstHit = sweep;
+              pickupIndex = i;
+          }
+      }
+
+      if (firstHit && pickupIndex >= 0) {
+          proj.x = startX + proj.vx * firstHit.time;
+          proj.y = startY + proj.vy * firstHit.time;
+          collectPickup(state, pickupIndex, events);
+          proj.active = false;
+      } else if (firstHit) {
+          const target = state.targets[hitIndex];
+          proj.x = startX + proj.vx * firstHit.time;
+          proj.y = startY + proj.vy * firstHit.time;
+          const normal = target.type === TargetType.MIRROR ? contactNormal(target, proj, firstHit.time) : null;
+
+          if (normal && !isMirrorCore(target, normal)) {
+              reflectOffMirror(state, proj, target, normal, events);
+          } else if (target.shielded) {
+              // Slipped past the satellites, but the core can't be hit until they're gone. Not a mismatch.
+              events.push({ type: 'PARTICLES', x: proj.x, y: proj.y, effect: TargetType.TOUGH, accuracy: 0 });
+              events.push({ type: 'SOUND', sound: 'heavy' });
+              proj.active = false;
+          } else {
+              if (proj.color === target.color || proj.rainbow) {
+                  handleMatch(state, proj, target, hitIndex, firstHit.accuracy, events);
+              } else {
+                  handleMismatch(state, proj, events);
+              }
+              proj.active = false;
+              grid = null;
+          }
+      } else if (proj.x < -50 || proj.x > width + 50 || proj.y < -50 || proj.y > height + 50) {
+          proj.active = false;
+          if (state.config.mode === GameMode.QUEUE && !state.isEnding && state.score > 0) {
+              const amount = Math.min(state.score, COLOR_QUEUE.MISS_PENALTY);
+              state.score -= amount;
+              events.push({ type: 'SCORE_PENALTY', amount });
+          }
+          if (state.config.mode === GameMode.AMMO && !state.isEnding && state.reloadTimer <= 0) {
+              const before = state.ammo;
+              spendAmmo(state, AMMO_CONFIG.MISS_COST, events);
+              events.push({ type: 'AMMO_PENALTY', amount: before - state.ammo });
+          }
+      }
+  }
+};
+
+// Remembers where everything was before this tick so the view can interpolate
+const storePreviousPositions = (state: EngineState) => {
+  for (const target of state.targets) {
+      target.prevX = target.x;
+      target.prevY = target.y;
+      target.prevRotation = target.rotation;
+  }
+  for (const pickup of state.pickups) {
+      pickup.prevX = pickup.x;
+      pickup.prevY = pickup.y;
+  }
+  for (const proj of state.projectilePool) {
+      if (!proj.active) continue;
+      proj.prevX = proj.x;
+      proj.prevY = proj.y;
+  }
+};
+
+/**
+ * Applies player inputs. They take effect before the next tick.
+ */
+export const applyInputs = (state: EngineState, inputs: EngineInput[]): EngineEvent[] => {
+  const events: EngineEvent[] = [];
+  if (state.isGameOver) return events;
+  for (const input of inputs) applyInput(state, input, events);
+  return events;
+};
+
+/**
+ * Advances the simulation by exactly one fixed tick (TICK_MS).
+ * Mutates `state` in place and returns the events produced during the tick.
+ */
+export const stepGame = (state: EngineState): EngineEvent[] => {
+  const events: EngineEvent[] = [];
+  if (state.isGameOver) return events;
+
+  state.tick++;
+  state.shotCooldown = Math.max(0, state.shotCooldown - TICK_MS);
+  state.partnerShotCooldown = Math.max(0, state.partnerShotCooldown - TICK_MS);
+  state.invulnerableTimer = Math.max(0, state.invulnerableTimer - TICK_MS);
+  updateReload(state);
+  storePreviousPositions(state);
+
+  if (state.isEnding) {
+      state.endingTimer -= TICK_MS;
+      if (state.endingTimer <= 0) {
+          state.isGameOver = true;
+          events.push({ type: 'GAME_OVER', score: Math.floor(state.score), stats: state.stats, seed: state.seed, cleared: state.runCleared, bossSplits: [...state.bossSplits] });
+      }
+      return events;
+  }
+
+  if (!state.isTutorial) state.time += TICK_MS;
+
+  if (state.config.mode === GameMode.TIME_ATTACK && !state.isTutorial) {
+      state.timeRemaining = Math.max(0, state.timeRemaining - TICK_MS);
+      if (state.timeRemaining <= 0) {
+          endRun(state, events);
+          return events;
+      }
+  }
+
+  const { width, height } = state.dimensions;
+  if (width === 0 || height === 0) return events;
+
+  if (!state.isTutorial) {
+      if (state.config.mode === GameMode.CAMPAIGN) updateStage(state, events);
+      else if (state.config.mode === GameMode.BOSS_RUSH) updateBossRush(state, events);
+      else updateSpawning(state, events);
+      if (state.isEnding) return events;
+      updateTargets(state, events);
+      updatePickups(state);
+      if (powerUpsEnabled(state.config)) updatePowerUps(state);
+  }
+
+  resolveCollisions(state);
+  updateOrbits(state);
+  updateProjectiles(state, events);
+
+  return events;
+};
+
+/**
+ * Applies `inputs`, then runs as many fixed ticks as `frameTime` ms of real time covers.
+ * The remainder carries over to the next frame in `state.accumulator`.
+ */
+export const advanceGame = (state: EngineState, frameTime: number, inputs: EngineInput[] = []): EngineEvent[] => {
+  const events = applyInputs(state, inputs);
+
+  state.accumulator += Math.min(frameTime, MAX_FRAME_TIME);
+  while (state.accumulator >= TICK_MS && !state.isGameOver) {
+      state.accumulator -= TICK_MS;
+      events.push(...stepGame(state));
+  }
+
+  return events;
+};
+
+// --- Render interpolation ---
+// `alpha` is how far the view is between the previous tick (0) and the current one (1).
+
+const lerp = (from: number | undefined, to: number, alpha: number) =>
+  from === undefined ? to : from + (to - from) * alpha;
+
+export const getInterpolationAlpha = (state: EngineState) => Math.min(1, state.accumulator / TICK_MS);
+
+// How visible a ghost is: solid, barely there while phased, and fading with a blink
+// through the telegraph before each switch so players can see it coming
+export const getGhostOpacity = (target: Target) => {
+  if (target.type !== TargetType.GHOST || target.phaseTimer === undefined) return 1;
+  const current = target.phased ? GHOST.PHASED_OPACITY : 1;
+  if (target.phaseTimer > GHOST.TELEGRAPH) return current;
+  const next = target.phased ? 1 : GHOST.PHASED_OPACITY;
+  const progress = 1 - target.phaseTimer / GHOST.TELEGRAPH;
+  const blink = Math.floor(target.phaseTimer / GHOST.BLINK) % 2 === 0 ? 1 : 0.6;
+  return (current + (next - current) * progress) * blink;
+};
+
+export const interpolateTargets = (targets: Target[], alpha: number): Target[] =>
+  targets.map(t => ({
+      ...t,
+      x: lerp(t.prevX, t.x, alpha),
+      y: lerp(t.prevY, t.y, alpha),
+      rotation: lerp(t.prevRotation, t.rotation, alpha)
+  }));
+
+export const interpolatePickups = (pickups: Pickup[], alpha: number): Pickup[] =>
+  pickups.map(p => ({
+      ...p,
+      x: lerp(p.prevX, p.x, alpha),
+      y: lerp(p.prevY, p.y, alpha)
+  }));
+
+export const interpolateProjectiles = (projectiles: Projectile[], alpha: number): Projectile[] =>
+  projectiles.map(p => ({
+      ...p,
+      x: lerp(p.prevX, p.x, alpha),
+      y: lerp(p.prevY, p.y, alpha)
+  }));
@@ -0,0 +1,34 @@
+// Seedable PRNG (mulberry32). The generator state is a plain number kept on
+// the engine state, so a run can be serialized and replayed exactly.
+
+export interface RandomSource {
+  rngState: number;
+}
+
+// Fresh 32-bit seed for runs that don't ask for a specific one
+export const createSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Returns a float in [0, 1) and advances the generator
+export const nextRandom = (source: RandomSource): number => {
+  source.rngState = (source.rngState + 0x6D2B79F5) | 0;
+  let t = source.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// FNV-1a hash, used to derive stable seeds from text such as dates
+export const seedFromString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomItem = <T>(source: RandomSource, items: T[]): T =>
+  items[Math.floor(nextRandom(source) * items.length)];
+
+// Seeds are shown to players as 8 hex digits, e.g. "0A1B2C3D"
+export const formatSeed = (seed: number): string => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
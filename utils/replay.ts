@@ -0,0 +1,169 @@
+import { ColorType, Difficulty, EngineEvent, EngineInput, EngineState, GameMode, Replay, ReplayInput, RunConfig, Stage } from '../types';
+import { CLASSIC_CONFIG } from '../constants';
+import { applyInputs, createEngineState, stepGame } from './engine';
+import { parseStage } from './campaign';
+
+// Input-log replays. The engine runs in fixed ticks, so recording every input
+// together with the tick it was applied before is enough: re-running the engine
+// with the same seed, difficulty, run config and inputs reproduces the run exactly.
+
+export const REPLAY_VERSION = 8;
+
+const createReplay = (seed: number, difficulty: Difficulty, config: RunConfig): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  difficulty,
+  config,
+  score: 0,
+  recordedAt: Date.now(),
+  ticks: 0,
+  inputs: []
+});
+
+export interface ReplayRecorder {
+  replay: Replay;
+}
+
+export const createReplayRecorder = (seed: number, difficulty: Difficulty, config: RunConfig = CLASSIC_CONFIG): ReplayRecorder => ({
+  replay: createReplay(seed, difficulty, config)
+});
+
+// Call with the engine's tick count before the inputs are applied
+export const recordInputs = (recorder: ReplayRecorder, tick: number, inputs: EngineInput[]) => {
+  for (const input of inputs) recorder.replay.inputs.push({ ...input, t: tick });
+};
+
+// Call with the engine's tick count after the frame's ticks have run
+export const recordTicks = (recorder: ReplayRecorder, tick: number) => {
+  recorder.replay.ticks = tick;
+};
+
+// --- Playback ---
+
+export interface ReplayPlayback {
+  replay: Replay;
+  engine: EngineState;
+  inputIndex: number;
+}
+
+export const startPlayback = (replay: Replay): ReplayPlayback => ({
+  replay,
+  engine: createEngineState(replay.difficulty, replay.seed, replay.config),
+  inputIndex: 0
+});
+
+export const isPlaybackFinished = (playback: ReplayPlayback) =>
+  playback.engine.isGameOver || playback.engine.tick >= playback.replay.ticks;
+
+// Re-simulates one recorded tick, applying the inputs that came before it
+export const stepPlayback = (playback: ReplayPlayback): EngineEvent[] => {
+  if (isPlaybackFinished(playback)) return [];
+
+  const { engine } = playback;
+  const { inputs } = playback.replay;
+  const tickInputs: EngineInput[] = [];
+  while (playback.inputIndex < inputs.length && inputs[playback.inputIndex].t <= engine.tick) {
+    const { t, ...input } = inputs[playback.inputIndex++];
+    tickInputs.push(input as EngineInput);
+  }
+
+  return [...applyInputs(engine, tickInputs), ...stepGame(engine)];
+};
+
+// --- Compact JSON (file export and storage) ---
+// Inputs become tuples keyed by tick. Co-op inputs from the right-hand shooter carry a trailing 1.
+
+type EncodedInput =
+  | ['S', number, number, number, 1?]   // tick, x, y, player
+  | ['C', number, ColorType, 1?]        // tick, color, player
+  | ['W', number]                       // tick (color queue swap)
+  | ['R', number, number, number];      // tick, width, height
+
+interface EncodedReplay {
+  v: number;
+  seed: number;
+  difficulty: Difficulty;
+  mode?: GameMode;    // Absent for classic runs
+  timeLimit?: number;
+  stage?: Stage;      // Campaign runs carry the whole stage, so edited or custom stages still play back
+  score: number;
+  date: number;
+  ticks: number;
+  inputs: EncodedInput[];
+}
+
+export const encodeReplay = (replay: Replay): string => {
+  const inputs: EncodedInput[] = replay.inputs.map((input): EncodedInput => {
+    if (input.type === 'SHOOT') return input.player === 1 ? ['S', input.t, input.x, input.y, 1] : ['S', input.t, input.x, input.y];
+    if (input.type === 'SELECT_COLOR') return input.player === 1 ? ['C', input.t, input.color, 1] : ['C', input.t, input.color];
+    if (input.type === 'SWAP') return ['W', input.t];
+    return ['R', input.t, input.width, input.height];
+  });
+
+  const encoded: EncodedReplay = {
+    v: replay.version,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    mode: replay.config.mode === GameMode.CLASSIC ? undefined : replay.config.mode,
+    timeLimit: replay.config.timeLimit,
+    stage: replay.config.stage,
+    score: replay.score,
+    date: replay.recordedAt,
+    ticks: replay.ticks,
+    inputs
+  };
+  return JSON.stringify(encoded);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isPlayer = (value: unknown) => value === undefined || value === 1;
+
+// Returns null for anything that isn't a replay this version can play. Only REPLAY_VERSION is
+// accepted: every bump marks a change to the engine (fixed ticks, power-ups, new target types,
+// scoring) that makes older logs re-simulate into a different run. Anything with a missing or
+// unknown seed, difficulty, mode or stage, a malformed input, or an input past the recorded
+// length is rejected as well. Classic runs come back with the classic config.
+export const decodeReplay = (json: string): Replay | null => {
+  let data: EncodedReplay;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return null;
+  }
+
+  if (!data || data.v !== REPLAY_VERSION) return null;
+  if (!isNumber(data.seed) || !Object.values(Difficulty).includes(data.difficulty)) return null;
+  if (!isNumber(data.ticks) || !Array.isArray(data.inputs)) return null;
+  if (data.mode !== undefined && !Object.values(GameMode).includes(data.mode)) return null;
+  if (data.timeLimit !== undefined && !isNumber(data.timeLimit)) return null;
+  const stage = data.stage !== undefined ? parseStage(data.stage) : undefined;
+  if (stage === null || (data.mode === GameMode.CAMPAIGN && !stage)) return null;
+
+  const inputs: ReplayInput[] = [];
+  for (const entry of data.inputs) {
+    if (!Array.isArray(entry) || !isNumber(entry[1]) || entry[1] > data.ticks) return null;
+    const t = entry[1];
+    if (entry[0] === 'S' && isNumber(entry[2]) && isNumber(entry[3]) && isPlayer(entry[4])) {
+      inputs.push(entry[4] ? { type: 'SHOOT', x: entry[2], y: entry[3], player: 1, t } : { type: 'SHOOT', x: entry[2], y: entry[3], t });
+    } else if (entry[0] === 'C' && Object.values(ColorType).includes(entry[2]) && isPlayer(entry[3])) {
+      inputs.push(entry[3] ? { type: 'SELECT_COLOR', color: entry[2], player: 1, t } : { type: 'SELECT_COLOR', color: entry[2], t });
+    } else if (entry[0] === 'W') {
+      inputs.push({ type: 'SWAP', t });
+    } else if (entry[0] === 'R' && isNumber(entry[2]) && isNumber(entry[3])) {
+      inputs.push({ type: 'RESIZE', width: entry[2], height: entry[3], t });
+    } else {
+      return null;
+    }
+  }
+
+  return {
+    version: data.v,
+    seed: data.seed >>> 0,
+    difficulty: data.difficulty,
+    config: data.mode ? { mode: data.mode, timeLimit: data.timeLimit, stage } : CLASSIC_CONFIG,
+    score: isNumber(data.score) ? data.score : 0,
+    recordedAt: isNumber(data.date) ? data.date : 0,
+    ticks: data.ticks,
+    inputs
+  };
+};
@@ -1,6 +1,7 @@
 
 
 /// <reference lib="dom" />
+import { SoundEffect } from '../types';
 
 
 // Singleton AudioContext
@@ -196,7 +197,7 @@ const playTone = (ctx: AudioContext, freq: number, type: OscillatorType, duratio
     osc.stop(t + duration + 0.1);
 };
 
-export const playSound = (type: 'score' | 'gameover' | 'rotate' | 'heavy' | 'pop' | 'whir' | 'shoot' | 'achievement' | 'levelUp' | 'streak' | 'ui', isMuted: boolean) => {
+export const playSound = (type: SoundEffect, isMuted: boolean) => {
   // Telegram Haptic Feedback Integration
   const tg = window.Telegram?.WebApp;
   
@@ -208,13 +209,21 @@ export const playSound = (type: 'score' | 'gameover' | 'rotate' | 'heavy' | 'pop
               tg.HapticFeedback.selectionChanged();
               break;
           case 'shoot':
+          case 'reload':
+          case 'ricochet':
               tg.HapticFeedback.impactOccurred('light');
               break;
           case 'score':
           case 'pop':
+          case 'timeBonus':
+          case 'slowMo':
+          case 'multishot':
+          case 'rainbow':
+          case 'shield':
               tg.HapticFeedback.impactOccurred('medium');
               break;
           case 'heavy':
+          case 'explosion':
           case 'streak':
           case 'levelUp':
           case 'achievement':
@@ -223,6 +232,9 @@ export const playSound = (type: 'score' | 'gameover' | 'rotate' | 'heavy' | 'pop
           case 'gameover':
               tg.HapticFeedback.notificationOccurred('error');
               break;
+          case 'shieldBreak':
+              tg.HapticFeedback.notificationOccurred('warning');
+              break;
       }
   }
 
@@ -371,6 +383,101 @@ export const playSound = (type: 'score' | 'gameover' | 'rotate' | 'heavy' | 'pop
             playTone(ctx, 659.25, 'sine', 0.4, 0.1, 0.2); // E5
             playTone(ctx, 783.99, 'sine', 0.8, 0.2, 0.2); // G5
             break;
+
+        case 'timeBonus':
+            // Quick rising double chirp
+            osc.disconnect();
+            gain.disconnect();
+
+            playTone(ctx, 987.77, 'square', 0.08, 0.0, 0.05); // B5
+            playTone(ctx, 1318.51, 'square', 0.12, 0.07, 0.05); // E6
+            break;
+
+        case 'reload':
+            // Magazine out, magazine in
+            osc.disconnect();
+            gain.disconnect();
+
+            playTone(ctx, 220, 'square', 0.04, 0.0, 0.06);
+            playTone(ctx, 330, 'square', 0.04, 0.12, 0.06);
+            break;
+
+        case 'slowMo':
+            // Long falling sweep, like time winding down
+            osc.type = 'sine';
+            osc.frequency.setValueAtTime(900, t);
+            osc.frequency.exponentialRampToValueAtTime(150, t + 0.6);
+            gain.gain.setValueAtTime(0.15, t);
+            gain.gain.linearRampToValueAtTime(0.01, t + 0.6);
+            osc.start(t);
+            osc.stop(t + 0.6);
+            break;
+
+        case 'multishot':
+            // Three quick blips, one per barrel
+            osc.disconnect();
+            gain.disconnect();
+
+            playTone(ctx, 660, 'square', 0.05, 0.0, 0.05);
+            playTone(ctx, 880, 'square', 0.05, 0.06, 0.05);
+            playTone(ctx, 1100, 'square', 0.05, 0.12, 0.05);
+            break;
+
+        case 'rainbow':
+            // Fast rising run over all four steps
+            osc.disconnect();
+            gain.disconnect();
+
+            playTone(ctx, 523.25, 'triangle', 0.1, 0.0, 0.1);  // C5
+            playTone(ctx, 659.25, 'triangle', 0.1, 0.05, 0.1); // E5
+            playTone(ctx, 783.99, 'triangle', 0.1, 0.1, 0.1);  // G5
+            playTone(ctx, 1046.5, 'triangle', 0.2, 0.15, 0.1); // C6
+            break;
+
+        case 'shield':
+            // Warm hum that swells in
+            osc.type = 'sine';
+            osc.frequency.setValueAtTime(220, t);
+            osc.frequency.linearRampToValueAtTime(330, t + 0.3);
+            gain.gain.setValueAtTime(0.01, t);
+            gain.gain.linearRampToValueAtTime(0.15, t + 0.15);
+            gain.gain.linearRampToValueAtTime(0.01, t + 0.4);
+            osc.start(t);
+            osc.stop(t + 0.4);
+            break;
+
+        case 'shieldBreak':
+            // Glassy crack
+            osc.type = 'sawtooth';
+            osc.frequency.setValueAtTime(1400, t);
+            osc.frequency.exponentialRampToValueAtTime(200, t + 0.25);
+            gain.gain.setValueAtTime(0.12, t);
+            gain.gain.exponentialRampToValueAtTime(0.01, t + 0.25);
+            osc.start(t);
+            osc.stop(t + 0.25);
+            break;
+
+        case 'explosion':
+            // Deep boom for a bomb going off
+            osc.type = 'sawtooth';
+            osc.frequency.setValueAtTime(180, t);
+            osc.frequency.exponentialRampToValueAtTime(25, t + 0.5);
+            gain.gain.setValueAtTime(0.25, t);
+            gain.gain.exponentialRampToValueAtTime(0.01, t + 0.5);
+            osc.start(t);
+            osc.stop(t + 0.5);
+            break;
+
+        case 'ricochet':
+            // Bright glancing ping off a mirror
+            osc.type = 'triangle';
+            osc.frequency.setValueAtTime(1800, t);
+            osc.frequency.exponentialRampToValueAtTime(2600, t + 0.08);
+            gain.gain.setValueAtTime(0.08, t);
+            gain.gain.exponentialRampToValueAtTime(0.01, t + 0.12);
+            osc.start(t);
+            osc.stop(t + 0.12);
+            break;
     }
   } catch (e) {
     console.error('Audio play failed', e);
@@ -0,0 +1,58 @@
+// Uniform grid broadphase. Entries are indices into whatever array the caller
+// built the grid from; queries return every index whose box shares a cell with
+// the query box, so callers still run their exact test on the candidates.
+
+export interface SpatialHash {
+  cellSize: number;
+  cells: Map<number, number[]>;
+}
+
+// Cell coordinates are clamped to this many cells either side of the origin and packed
+// into one integer key. Clamping boxes and queries the same way keeps every overlap, it
+// just lumps anything far off screen into the border cells.
+const CELL_LIMIT = 64;
+const toCell = (value: number, cellSize: number) => Math.max(-CELL_LIMIT, Math.min(CELL_LIMIT, Math.floor(value / cellSize)));
+const cellKey = (cx: number, cy: number) => (cx + CELL_LIMIT) * (CELL_LIMIT * 2 + 1) + (cy + CELL_LIMIT);
+
+export const createSpatialHash = (cellSize: number): SpatialHash => ({
+  cellSize,
+  cells: new Map()
+});
+
+export const insertBox = (hash: SpatialHash, index: number, minX: number, minY: number, maxX: number, maxY: number) => {
+  const { cellSize, cells } = hash;
+  const x0 = toCell(minX, cellSize), x1 = toCell(maxX, cellSize);
+  const y0 = toCell(minY, cellSize), y1 = toCell(maxY, cellSize);
+
+  for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+          const key = cellKey(cx, cy);
+          const cell = cells.get(key);
+          if (cell) cell.push(index);
+          else cells.set(key, [index]);
+      }
+  }
+};
+
+// Candidate indices in ascending order, without duplicates
+export const queryBox = (hash: SpatialHash, minX: number, minY: number, maxX: number, maxY: number): number[] => {
+  const { cellSize, cells } = hash;
+  const x0 = toCell(minX, cellSize), x1 = toCell(maxX, cellSize);
+  const y0 = toCell(minY, cellSize), y1 = toCell(maxY, cellSize);
+
+  const found: number[] = [];
+  for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+          const cell = cells.get(cellKey(cx, cy));
+          if (cell) found.push(...cell);
+      }
+  }
+
+  found.sort((a, b) => a - b);
+  let unique = 0;
+  for (let i = 0; i < found.length; i++) {
+      if (i === 0 || found[i] !== found[i - 1]) found[unique++] = found[i];
+  }
+  found.length = unique;
+  return found;
+};
@@ -1,13 +1,26 @@
 
-import { GameStats, Achievement, GameSettings, Difficulty, Theme } from '../types';
+import { GameStats, Achievement, GameSettings, Difficulty, Theme, DailyHistory, Replay, RunSnapshot, TimeAttackBests, CampaignProgress, Stage, BossRushRecords } from '../types';
 import { INITIAL_STATS } from '../constants';
+import { encodeReplay, decodeReplay } from './replay';
+import { encodeStage, decodeStage } from './campaign';
 
 const KEYS = {
   STATS: 'chroma_shot_stats',
   ACHIEVEMENTS: 'chroma_shot_unlocked',
-  SETTINGS: 'chroma_shot_settings'
+  SETTINGS: 'chroma_shot_settings',
+  DAILY: 'chroma_shot_daily',
+  REPLAYS: 'chroma_shot_replays',
+  RUN: 'chroma_shot_run',
+  TIME_ATTACK: 'chroma_shot_time_attack',
+  CAMPAIGN: 'chroma_shot_campaign',
+  EDITOR: 'chroma_shot_editor',
+  BOSS_RUSH: 'chroma_shot_boss_rush'
 };
 
+const MAX_SAVED_REPLAYS = 5;
+// Bump when EngineState changes shape so old snapshots are dropped instead of restored
+export const RUN_SNAPSHOT_VERSION = 13;
+
 // Helper to safely parse JSON
 const safeParse = <T>(data: string | null, fallback: T): T => {
   if (!data) return fallback;
@@ -53,7 +66,8 @@ const DEFAULT_SETTINGS: GameSettings = {
   isMuted: false,
   theme: 'dark',
   difficulty: Difficulty.MEDIUM,
-  hasPlayedTutorial: false
+  hasPlayedTutorial: false,
+  renderer: 'canvas'
 };
 
 export const saveSettings = (settings: GameSettings) => {
@@ -82,3 +96,145 @@ export const loadSettings = (): GameSettings => {
 
   return { ...DEFAULT_SETTINGS, ...parsed };
 };
+
+// --- Daily Challenge (kept apart from GameStats.highScore) ---
+export const saveDailyHistory = (history: DailyHistory) => {
+  try {
+    localStorage.setItem(KEYS.DAILY, JSON.stringify(history));
+  } catch (e) {
+    console.error('Failed to save daily history', e);
+  }
+};
+
+export const loadDailyHistory = (): DailyHistory => {
+  return safeParse(localStorage.getItem(KEYS.DAILY), {});
+};
+
+export const recordDailyResult = (dayKey: string, score: number): DailyHistory => {
+  const history = loadDailyHistory();
+  const previous = history[dayKey];
+  history[dayKey] = {
+    bestScore: Math.max(previous?.bestScore ?? 0, score),
+    attempts: (previous?.attempts ?? 0) + 1
+  };
+  saveDailyHistory(history);
+  return history;
+};
+
+// --- Time Attack (best score per duration and difficulty) ---
+export const getTimeAttackKey = (seconds: number, difficulty: Difficulty) => `${seconds}-${difficulty}`;
+
+export const loadTimeAttackBests = (): TimeAttackBests => {
+  return safeParse(localStorage.getItem(KEYS.TIME_ATTACK), {});
+};
+
+export const recordTimeAttackResult = (seconds: number, difficulty: Difficulty, score: number): TimeAttackBests => {
+  const bests = loadTimeAttackBests();
+  const key = getTimeAttackKey(seconds, difficulty);
+  bests[key] = Math.max(bests[key] ?? 0, score);
+  try {
+    localStorage.setItem(KEYS.TIME_ATTACK, JSON.stringify(bests));
+  } catch (e) {
+    console.error('Failed to save time attack scores', e);
+  }
+  return bests;
+};
+
+// --- Campaign (best result per stage; a stage stays cleared once it has been) ---
+export const loadCampaignProgress = (): CampaignProgress => {
+  return safeParse(localStorage.getItem(KEYS.CAMPAIGN), {});
+};
+
+export const recordStageResult = (stageId: string, score: number, stars: number, cleared: boolean): CampaignProgress => {
+  const progress = loadCampaignProgress();
+  const previous = progress[stageId];
+  progress[stageId] = {
+    cleared: cleared || (previous?.cleared ?? false),
+    stars: Math.max(previous?.stars ?? 0, stars),
+    bestScore: Math.max(previous?.bestScore ?? 0, score)
+  };
+  try {
+    localStorage.setItem(KEYS.CAMPAIGN, JSON.stringify(progress));
+  } catch (e) {
+    console.error('Failed to save campaign progress', e);
+  }
+  return progress;
+};
+
+// --- Boss Rush (fastest full clear and most bosses per difficulty) ---
+export const loadBossRushRecords = (): BossRushRecords => {
+  return safeParse(localStorage.getItem(KEYS.BOSS_RUSH), {});
+};
+
+// clearTime is the run time of a full clear, or null when the run ended early
+export const recordBossRushResult = (difficulty: Difficulty, bosses: number, clearTime: number | null): BossRushRecords => {
+  const records = loadBossRushRecords();
+  const previous = records[difficulty];
+  const fastestClear = previous?.fastestClear ?? null;
+  records[difficulty] = {
+    fastestClear: clearTime !== null && (fastestClear === null || clearTime < fastestClear) ? clearTime : fastestClear,
+    mostBosses: Math.max(previous?.mostBosses ?? 0, bosses)
+  };
+  try {
+    localStorage.setItem(KEYS.BOSS_RUSH, JSON.stringify(records));
+  } catch (e) {
+    console.error('Failed to save Boss Rush records', e);
+  }
+  return records;
+};
+
+// --- Wave editor (the stage being worked on, kept between sessions) ---
+export const saveEditorStage = (stage: Stage) => {
+  try {
+    localStorage.setItem(KEYS.EDITOR, encodeStage(stage));
+  } catch (e) {
+    console.error('Failed to save editor stage', e);
+  }
+};
+
+export const loadEditorStage = (): Stage | null => {
+  const data = localStorage.getItem(KEYS.EDITOR);
+  return data ? decodeStage(data) : null;
+};
+
+// --- Replays (most recent first, stored in the compact export format) ---
+export const loadRecentReplays = (): Replay[] => {
+  const encoded = safeParse<string[]>(localStorage.getItem(KEYS.REPLAYS), []);
+  return encoded
+    .map(decodeReplay)
+    .filter((r): r is Replay => r !== null);
+};
+
+export const saveRecentReplay = (replay: Replay): Replay[] => {
+  const replays = [replay, ...loadRecentReplays()].slice(0, MAX_SAVED_REPLAYS);
+  try {
+    localStorage.setItem(KEYS.REPLAYS, JSON.stringify(replays.map(encodeReplay)));
+  } catch (e) {
+    console.error('Failed to save replays', e);
+  }
+  return replays;
+};
+
+// --- Run in progress (cleared as soon as the run is lost, so it can't undo a mismatch) ---
+export const saveRunSnapshot = (snapshot: RunSnapshot) => {
+  try {
+    localStorage.setItem(KEYS.RUN, JSON.stringify(snapshot));
+  } catch (e) {
+    console.error('Failed to save run', e);
+  }
+};
+
+export const loadRunSnapshot = (): RunSnapshot | null => {
+  const snapshot = safeParse<RunSnapshot | null>(localStorage.getItem(KEYS.RUN), null);
+  if (!snapshot || snapshot.version !== RUN_SNAPSHOT_VERSION || !snapshot.engine) return null;
+  if (snapshot.engine.isEnding || snapshot.engine.isGameOver) return null;
+  return snapshot;
+};
+
+export const clearRunSnapshot = () => {
+  try {
+    localStorage.removeItem(KEYS.RUN);
+  } catch (e) {
+    console.error('Failed to clear run', e);
+  }
+};